@@ -93,6 +93,10 @@ fn buildWeb(b: *Build, options: Options) !void {
 
     lib_install_artifact.step.dependOn(&node_run.step);
     install_step.dependOn(&lib_install_artifact.step);
+
+    // The frontend tests load the wasm module directly, so it can be built without bundling the frontend
+    const wasm_step = b.step("wasm", "Build the wasm library into dist/wasm without bundling the frontend");
+    wasm_step.dependOn(&b.addInstallArtifact(night_math, .{ .dest_dir = .{ .override = .{ .custom = "../dist/wasm" } } }).step);
 }
 
 fn buildNode(b: *Build, options: Options) !*Build.Step.Run {
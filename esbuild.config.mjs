@@ -10,11 +10,15 @@ function getSettingsFromArguments() {
 
 function getBuildConfig(settings, plugins = []) {
   return {
-    entryPoints: ['web/src/index.ts'],
+    // The sky is rendered in a worker when the browser supports OffscreenCanvas, so it gets its own bundle
+    entryPoints: {
+      bundle: 'web/src/index.ts',
+      'render-worker': 'web/src/render-worker.ts',
+    },
     bundle: true,
     sourcemap: settings.production !== true,
     minify: settings.production === true,
-    outfile: path.join(process.cwd(), 'dist/bundle.js'),
+    outdir: path.join(process.cwd(), 'dist'),
     plugins,
   };
 }
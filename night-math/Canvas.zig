@@ -8,11 +8,14 @@ const Point = math_utils.Point;
 const Line = math_utils.Line;
 
 const Constellation = @import("Constellation.zig");
+const Geometry = @import("Geometry.zig");
 const Star = @import("Star.zig");
 
 const SkyCoord = @import("SkyCoord.zig");
 const star_math = @import("star_math.zig");
 const ObserverPosition = star_math.ObserverPosition;
+const ecliptic = @import("ecliptic.zig");
+const HorizontalCoord = star_math.HorizontalCoord;
 
 const FixedPoint = @import("fixed_point.zig").DefaultFixedPoint;
 
@@ -47,43 +50,90 @@ pub const Settings = struct {
     background_radius: f32,
     zoom_factor: f32,
     drag_speed: f32,
+    /// The number of canvas pixels per CSS pixel. Distances that are picked with the pointer are given in CSS pixels, so that
+    /// they feel the same on every display.
+    pixel_ratio: f32 = 1,
+    /// Stars fainter than this magnitude aren't drawn.
+    limiting_magnitude: f32,
+    /// The constellation to draw in the highlight color, on top of the other constellations. It's drawn even if constellations
+    /// are turned off.
+    highlighted_constellation: ?usize,
     draw_north_up: bool,
     draw_constellation_grid: bool,
     draw_asterisms: bool,
     zodiac_only: bool,
+    draw_horizon_grid: bool,
+    draw_equatorial_grid: bool,
+    draw_ecliptic: bool,
+    draw_zodiac_signs: bool,
+    draw_solar_system: bool,
+    simulate_twilight: bool,
 };
 
 data: []u32,
-pixel_mask: []const u32,
+pixel_mask: []u32,
 settings: Settings,
+/// If set, shapes are recorded here instead of being drawn into `data`.
+geometry: ?*Geometry,
 
 pub fn init(allocator: Allocator, settings: Settings) !Canvas {
     var canvas: Canvas = undefined;
     canvas.settings = settings;
+    canvas.geometry = null;
     const num_pixels = canvas.settings.width * canvas.settings.height;
     canvas.data = try allocator.alloc(u32, num_pixels);
     for (canvas.data) |*p| {
         p.* = 0;
     }
 
-    const pixel_mask = try allocator.alloc(u32, num_pixels);
-    for (pixel_mask, 0..) |*p, p_index| {
+    canvas.pixel_mask = try allocator.alloc(u32, num_pixels);
+    canvas.updatePixelMask();
+
+    return canvas;
+}
+
+/// Resize the pixel buffer and pixel mask to match the current settings. The pixel buffer is cleared.
+pub fn resize(canvas: *Canvas, allocator: Allocator) !void {
+    const num_pixels = canvas.settings.width * canvas.settings.height;
+    canvas.data = try allocator.realloc(canvas.data, num_pixels);
+    @memset(canvas.data, 0);
+
+    canvas.pixel_mask = try allocator.realloc(canvas.pixel_mask, num_pixels);
+    canvas.updatePixelMask();
+}
+
+/// Rebuild the mask that hides everything outside of the sky circle. This needs to happen whenever the canvas size or the background
+/// radius changes.
+pub fn updatePixelMask(canvas: *Canvas) void {
+    for (canvas.pixel_mask, 0..) |*p, p_index| {
         const x = @as(f32, @floatFromInt(p_index % canvas.settings.width));
         const y = @as(f32, @floatFromInt(@divFloor(p_index, canvas.settings.width)));
         const mask_value =
             if (canvas.isInsideCircle(.{ .x = x, .y = y })) Pixel.rgba(255, 255, 255, 255) else Pixel.rgba(0, 0, 0, 0);
         p.* = mask_value.asU32();
     }
+}
 
-    canvas.pixel_mask = pixel_mask;
-    return canvas;
+pub fn deinit(canvas: *Canvas, allocator: Allocator) void {
+    allocator.free(canvas.data);
+    allocator.free(canvas.pixel_mask);
 }
 
 pub fn resetImageData(canvas: *Canvas) void {
     @memset(canvas.data, 0);
+    if (canvas.geometry) |geometry| {
+        geometry.clear();
+    }
 }
 
 pub fn setPixelAt(canvas: *Canvas, point: Point, new_pixel: Pixel) void {
+    if (canvas.geometry) |geometry| {
+        if (canvas.isPixelVisible(point)) {
+            geometry.addSprite(point, 1, new_pixel);
+        }
+        return;
+    }
+
     if (std.math.isNan(point.x) or std.math.isNan(point.y)) {
         return;
     }
@@ -100,7 +150,34 @@ pub fn setPixelAt(canvas: *Canvas, point: Point, new_pixel: Pixel) void {
     canvas.data[p_index] = canvas.pixel_mask[p_index] & new_pixel.asU32();
 }
 
-pub fn projectAndRenderStarsWide(canvas: *Canvas, sky_coords: std.MultiArrayList(Star), local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) void {
+/// Check if `point` would be drawn by `setPixelAt`. This applies the same mask as the pixel buffer, so that single pixels are only
+/// recorded as geometry if they'd actually be visible.
+fn isPixelVisible(canvas: Canvas, point: Point) bool {
+    if (std.math.isNan(point.x) or std.math.isNan(point.y)) return false;
+    if (point.x < 0 or point.y < 0) return false;
+    if (point.x > @as(f32, @floatFromInt(canvas.settings.width)) or point.y > @as(f32, @floatFromInt(canvas.settings.height))) return false;
+
+    return canvas.isInsideCircle(Point{ .x = @floor(point.x), .y = @floor(point.y) });
+}
+
+/// Draw a single star. Stars are one pixel, but when geometry is being recorded they keep their magnitude so that the frontend can
+/// size them however it likes.
+pub fn drawStar(canvas: *Canvas, point: Point, magnitude: f32, new_pixel: Pixel) void {
+    if (canvas.geometry) |geometry| {
+        if (canvas.isPixelVisible(point)) {
+            geometry.addStar(point, magnitude, new_pixel);
+        }
+        return;
+    }
+    canvas.setPixelAt(point, new_pixel);
+}
+
+/// Stars that are less than this many magnitudes brighter than the limiting magnitude are faded out, so that changing the limit doesn't
+/// make stars pop in and out of view.
+const star_fade_range: f32 = 1.0;
+
+/// Project all of the stars onto the canvas. Stars fainter than `limiting_magnitude` are skipped.
+pub fn projectAndRenderStarsWide(canvas: *Canvas, sky_coords: std.MultiArrayList(Star), local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32, limiting_magnitude: f32) void {
     const f32x4 = @Vector(4, f32);
 
     // Constants for calculating sky coord-to-point
@@ -121,6 +198,7 @@ pub fn projectAndRenderStarsWide(canvas: *Canvas, sky_coords: std.MultiArrayList
     const sin_decs = coord_slice.items(.sin_declination);
     const cos_decs = coord_slice.items(.cos_declination);
     const pixels = coord_slice.items(.pixel);
+    const magnitudes = coord_slice.items(.magnitude);
 
     var index: usize = 0;
     while (index + 4 <= right_ascensions.len) : (index += 4) {
@@ -159,9 +237,16 @@ pub fn projectAndRenderStarsWide(canvas: *Canvas, sky_coords: std.MultiArrayList
 
         var point_index: usize = 0;
         while (point_index < 4) : (point_index += 1) {
+            const magnitude = magnitudes[index + point_index];
+            if (magnitude > limiting_magnitude) continue;
+
             const point = Point{ .x = translate_x[point_index], .y = translate_y[point_index] };
-            const pixel = pixels[index + point_index];
-            canvas.setPixelAt(point, pixel);
+            var pixel = pixels[index + point_index];
+            const fade = limiting_magnitude - magnitude;
+            if (fade < star_fade_range) {
+                pixel.a = @intFromFloat(@as(f32, @floatFromInt(pixel.a)) * (fade / star_fade_range));
+            }
+            canvas.drawStar(point, magnitude, pixel);
         }
     }
 }
@@ -203,6 +288,48 @@ pub fn coordToPoint(canvas: Canvas, sky_coord: SkyCoord, local_sidereal_time: f3
     return canvas.translatePoint(canvas_point);
 }
 
+/// Project a position in the observer's local sky onto the canvas. This is the same projection that's used for sky coordinates in
+/// `coordToPoint`, without the conversion from right ascension/declination.
+pub fn horizontalToPoint(canvas: Canvas, horizontal: HorizontalCoord) Point {
+    const s = 1.0 - ((2.0 / math.pi) * horizontal.altitude);
+    return canvas.translatePoint(Point{
+        .x = -s * math.sin(horizontal.azimuth),
+        .y = s * math.cos(horizontal.azimuth),
+    });
+}
+
+/// Get the position in the observer's local sky that is drawn at a point on the canvas. This is the inverse of `horizontalToPoint`.
+/// Points outside of the sky circle will have a negative altitude.
+pub fn pointToHorizontal(canvas: Canvas, point: Point) HorizontalCoord {
+    const center = Point{
+        .x = @as(f32, @floatFromInt(canvas.settings.width)) / 2.0,
+        .y = @as(f32, @floatFromInt(canvas.settings.height)) / 2.0,
+    };
+
+    const direction_modifier: f32 = if (canvas.settings.draw_north_up) 1.0 else -1.0;
+    const translate_factor: f32 = direction_modifier * canvas.settings.background_radius * canvas.settings.zoom_factor;
+
+    const x = (point.x - center.x) / translate_factor;
+    const y = (center.y - point.y) / translate_factor;
+
+    const s = math.sqrt(x * x + y * y);
+    var azimuth = math.atan2(-x, y);
+    if (azimuth < 0) azimuth += 2 * math.pi;
+
+    return HorizontalCoord{
+        .altitude = (1.0 - s) * (math.pi / 2.0),
+        .azimuth = azimuth,
+    };
+}
+
+/// Get the sky coordinate that is drawn at a point on the canvas for the given observer. This is the inverse of `coordToPoint`.
+pub fn pointToCoord(canvas: Canvas, point: Point, observer: ObserverPosition) ?SkyCoord {
+    const horizontal = canvas.pointToHorizontal(point);
+    const sky_coord = star_math.horizontalToSkyCoord(horizontal, observer.localSiderealTime(), math.sin(observer.latitude), math.cos(observer.latitude));
+    if (math.isNan(sky_coord.right_ascension) or math.isNan(sky_coord.declination)) return null;
+    return sky_coord;
+}
+
 pub fn translatePoint(self: Canvas, pt: Point) Point {
     const center = Point{
         .x = @as(f32, @floatFromInt(self.settings.width)) / 2.0,
@@ -266,9 +393,165 @@ pub fn drawAsterism(canvas: *Canvas, constellation: Constellation, color: Pixel,
     }
 }
 
+/// Draw altitude circles and azimuth spokes in the observer's local sky. Circles are drawn every 30 degrees of altitude, and spokes
+/// every 30 degrees of azimuth (so the spokes line up with north, east, south and west).
+pub fn drawHorizonGrid(canvas: *Canvas, color: Pixel) void {
+    const deg_to_rad = math.pi / 180.0;
+    // Stop the spokes short of the zenith so that they don't all pile up in the middle
+    const spoke_end_altitude = 80.0 * deg_to_rad;
+    const circle_segments = 180;
+
+    var altitude_degrees: f32 = 0;
+    while (altitude_degrees < 90) : (altitude_degrees += 30) {
+        const altitude = altitude_degrees * deg_to_rad;
+        var previous = canvas.horizontalToPoint(.{ .altitude = altitude, .azimuth = 0 });
+        var segment_index: usize = 1;
+        while (segment_index <= circle_segments) : (segment_index += 1) {
+            const azimuth = @as(f32, @floatFromInt(segment_index)) * (2.0 * math.pi / @as(f32, @floatFromInt(circle_segments)));
+            const next = canvas.horizontalToPoint(.{ .altitude = altitude, .azimuth = azimuth });
+            if (canvas.isInsideCircle(previous) or canvas.isInsideCircle(next)) {
+                canvas.drawLine(Line{ .a = previous, .b = next }, color);
+            }
+            previous = next;
+        }
+    }
+
+    var azimuth_degrees: f32 = 0;
+    while (azimuth_degrees < 360) : (azimuth_degrees += 30) {
+        const azimuth = azimuth_degrees * deg_to_rad;
+        const start = canvas.horizontalToPoint(.{ .altitude = 0, .azimuth = azimuth });
+        const end = canvas.horizontalToPoint(.{ .altitude = spoke_end_altitude, .azimuth = azimuth });
+        canvas.drawLine(Line{ .a = start, .b = end }, color);
+    }
+}
+
+/// Draw lines of constant right ascension every hour and circles of constant declination every 15 degrees. The celestial equator
+/// is drawn in `equator_color` so that it stands out from the rest of the grid.
+pub fn drawEquatorialGrid(canvas: *Canvas, color: Pixel, equator_color: Pixel, local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) void {
+    const deg_to_rad = math.pi / 180.0;
+    const segments_per_line = 90;
+
+    // The hour lines all meet at the celestial poles, so stop them a little short to keep the poles from turning into a blob
+    const max_hour_line_declination = 80.0 * deg_to_rad;
+
+    var hour: f32 = 0;
+    while (hour < 24) : (hour += 1) {
+        const right_ascension = hour * (math.pi / 12.0);
+        var previous = SkyCoord{ .right_ascension = right_ascension, .declination = -max_hour_line_declination };
+        var segment_index: usize = 1;
+        while (segment_index <= segments_per_line) : (segment_index += 1) {
+            const progress = @as(f32, @floatFromInt(segment_index)) / @as(f32, @floatFromInt(segments_per_line));
+            const next = SkyCoord{ .right_ascension = right_ascension, .declination = (2 * progress - 1) * max_hour_line_declination };
+            canvas.drawSkySegment(previous, next, color, local_sidereal_time, sin_latitude, cos_latitude);
+            previous = next;
+        }
+    }
+
+    var declination_degrees: f32 = -75;
+    while (declination_degrees <= 75) : (declination_degrees += 15) {
+        const declination = declination_degrees * deg_to_rad;
+        const circle_color = if (declination_degrees == 0) equator_color else color;
+        var previous = SkyCoord{ .right_ascension = 0, .declination = declination };
+        var segment_index: usize = 1;
+        while (segment_index <= 2 * segments_per_line) : (segment_index += 1) {
+            const progress = @as(f32, @floatFromInt(segment_index)) / @as(f32, @floatFromInt(2 * segments_per_line));
+            const next = SkyCoord{ .right_ascension = progress * 2 * math.pi, .declination = declination };
+            canvas.drawSkySegment(previous, next, circle_color, local_sidereal_time, sin_latitude, cos_latitude);
+            previous = next;
+        }
+    }
+}
+
+/// Draw the ecliptic, which is the path that the Sun takes across the sky over a year. If `draw_sign_ticks` is true, then a short tick
+/// is drawn across the ecliptic at the start of each of the 12 zodiac signs (every 30 degrees of ecliptic longitude).
+pub fn drawEcliptic(canvas: *Canvas, color: Pixel, draw_sign_ticks: bool, local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) void {
+    const deg_to_rad = math.pi / 180.0;
+    const segments = 180;
+
+    var previous = ecliptic.toSkyCoord(.{ .longitude = 0, .latitude = 0 });
+    var segment_index: usize = 1;
+    while (segment_index <= segments) : (segment_index += 1) {
+        const longitude = @as(f32, @floatFromInt(segment_index)) * (2.0 * math.pi / @as(f32, @floatFromInt(segments)));
+        const next = ecliptic.toSkyCoord(.{ .longitude = longitude, .latitude = 0 });
+        canvas.drawSkySegment(previous, next, color, local_sidereal_time, sin_latitude, cos_latitude);
+        previous = next;
+    }
+
+    if (!draw_sign_ticks) return;
+
+    const tick_half_length = 2.5 * deg_to_rad;
+    var sign_index: usize = 0;
+    while (sign_index < 12) : (sign_index += 1) {
+        const longitude = @as(f32, @floatFromInt(sign_index)) * (30.0 * deg_to_rad);
+        const tick_start = ecliptic.toSkyCoord(.{ .longitude = longitude, .latitude = -tick_half_length });
+        const tick_end = ecliptic.toSkyCoord(.{ .longitude = longitude, .latitude = tick_half_length });
+        canvas.drawSkySegment(tick_start, tick_end, color, local_sidereal_time, sin_latitude, cos_latitude);
+    }
+}
+
+/// Draw a filled circle centered on `center`.
+pub fn drawDisc(canvas: *Canvas, center: Point, radius: f32, color: Pixel) void {
+    if (canvas.geometry) |geometry| {
+        geometry.addSprite(center, 2 * radius + 1, color);
+        return;
+    }
+
+    var y = -radius;
+    while (y <= radius) : (y += 1) {
+        var x = -radius;
+        while (x <= radius) : (x += 1) {
+            if (x * x + y * y > radius * radius) continue;
+            canvas.setPixelAt(.{ .x = center.x + x, .y = center.y + y }, color);
+        }
+    }
+}
+
+/// Draw the Moon with its current phase. `phase_angle` is the Sun-Moon-Earth angle (0 is a full moon), and `sun_direction` is the angle
+/// on the canvas pointing from the Moon towards the Sun, which is the side that's lit.
+pub fn drawMoon(canvas: *Canvas, center: Point, radius: f32, phase_angle: f32, sun_direction: f32, lit_color: Pixel, dark_color: Pixel) void {
+    const cos_phase = math.cos(phase_angle);
+    const cos_direction = math.cos(sun_direction);
+    const sin_direction = math.sin(sun_direction);
+
+    var y = -radius;
+    while (y <= radius) : (y += 1) {
+        var x = -radius;
+        while (x <= radius) : (x += 1) {
+            if (x * x + y * y > radius * radius) continue;
+
+            // Rotate the pixel so that the x axis points towards the Sun. The terminator is then half of an ellipse, which lies on the
+            // far side of the disc for a full moon and the near side for a new moon.
+            const towards_sun = (x * cos_direction + y * sin_direction) / radius;
+            const across = (y * cos_direction - x * sin_direction) / radius;
+            const terminator = -cos_phase * math.sqrt(@max(0, 1 - across * across));
+
+            const color = if (towards_sun >= terminator) lit_color else dark_color;
+            canvas.setPixelAt(.{ .x = center.x + x, .y = center.y + y }, color);
+        }
+    }
+}
+
+/// Draw a straight line between the projections of two sky coordinates. Curves on the sky can be drawn by breaking them up into
+/// segments that are short enough to look smooth. Segments that are completely outside of the sky circle are skipped.
+fn drawSkySegment(canvas: *Canvas, a: SkyCoord, b: SkyCoord, color: Pixel, local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) void {
+    const point_a = canvas.coordToPoint(a, local_sidereal_time, sin_latitude, cos_latitude, false) orelse return;
+    const point_b = canvas.coordToPoint(b, local_sidereal_time, sin_latitude, cos_latitude, false) orelse return;
+
+    if (!canvas.isInsideCircle(point_a) and !canvas.isInsideCircle(point_b)) {
+        return;
+    }
+
+    canvas.drawLine(Line{ .a = point_a, .b = point_b }, color);
+}
+
 pub fn drawLine(self: *Canvas, line: Line, color: Pixel) void {
     if (math.isNan(line.a.x) or math.isNan(line.a.y) or math.isNan(line.b.x) or math.isNan(line.b.y)) return;
 
+    if (self.geometry) |geometry| {
+        geometry.addLine(line.a, line.b, color);
+        return;
+    }
+
     const IntPoint = struct {
         x: i32,
         y: i32,
@@ -317,11 +600,20 @@ test "coord to point conversion" {
         .draw_asterisms = false,
         .draw_constellation_grid = false,
         .drag_speed = 0,
+        .limiting_magnitude = 8.5,
+        .highlighted_constellation = null,
         .zodiac_only = false,
+        .draw_horizon_grid = false,
+        .draw_equatorial_grid = false,
+        .draw_ecliptic = false,
+        .draw_zodiac_signs = false,
+        .draw_solar_system = false,
+        .simulate_twilight = false,
     };
 
     var canvas = try Canvas.init(std.testing.allocator, canvas_settings);
     defer std.testing.allocator.free(canvas.data);
+    defer std.testing.allocator.free(canvas.pixel_mask);
 
     const original_sky_coord = SkyCoord{
         .right_ascension = 125.07948333 * (math.pi / 180.0),
@@ -337,5 +629,130 @@ test "coord to point conversion" {
     const coord_to_point = canvas.coordToPoint(original_sky_coord, original_coord.localSiderealTime(), math.sin(original_coord.latitude), math.cos(original_coord.latitude), false).?;
     const point_to_coord = canvas.pointToCoord(coord_to_point, original_coord).?;
 
-    try std.testing.expectEqual(original_sky_coord, point_to_coord);
+    try std.testing.expectApproxEqAbs(original_sky_coord.right_ascension, point_to_coord.right_ascension, 0.01);
+    try std.testing.expectApproxEqAbs(original_sky_coord.declination, point_to_coord.declination, 0.001);
+}
+
+test "geometry output draws the same pixels as the pixel buffer" {
+    const canvas_settings = Canvas.Settings{
+        .width = 120,
+        .height = 120,
+        .draw_north_up = true,
+        .background_radius = 60,
+        .zoom_factor = 1.0,
+        .draw_asterisms = false,
+        .draw_constellation_grid = false,
+        .drag_speed = 0,
+        .limiting_magnitude = 8.5,
+        .highlighted_constellation = null,
+        .zodiac_only = false,
+        .draw_horizon_grid = false,
+        .draw_equatorial_grid = false,
+        .draw_ecliptic = false,
+        .draw_zodiac_signs = false,
+        .draw_solar_system = false,
+        .simulate_twilight = false,
+    };
+
+    // Lines are drawn before points, which is the order that the geometry gets replayed in below
+    const drawShapes = struct {
+        fn draw(canvas: *Canvas) void {
+            canvas.drawHorizonGrid(Pixel.rgba(140, 200, 255, 110));
+            canvas.drawLine(Line{ .a = .{ .x = 10, .y = 10 }, .b = .{ .x = 110, .y = 90 } }, Pixel.rgb(255, 0, 0));
+            canvas.drawDisc(.{ .x = 40, .y = 70 }, 3, Pixel.rgb(255, 236, 150));
+            canvas.setPixelAt(.{ .x = 80.5, .y = 33.25 }, Pixel.rgb(255, 255, 255));
+            canvas.drawStar(.{ .x = 70.75, .y = 64.5 }, 2.5, Pixel.rgb(200, 210, 255));
+            // Outside of the sky circle, so this shouldn't be drawn by either one
+            canvas.setPixelAt(.{ .x = 2, .y = 3 }, Pixel.rgb(255, 255, 255));
+        }
+    }.draw;
+
+    var pixel_canvas = try Canvas.init(std.testing.allocator, canvas_settings);
+    defer pixel_canvas.deinit(std.testing.allocator);
+    drawShapes(&pixel_canvas);
+
+    var geometry = Geometry.init(std.testing.allocator);
+    defer geometry.deinit();
+    var geometry_canvas = try Canvas.init(std.testing.allocator, canvas_settings);
+    defer geometry_canvas.deinit(std.testing.allocator);
+    geometry_canvas.geometry = &geometry;
+    drawShapes(&geometry_canvas);
+
+    // Nothing should be written to the pixel buffer when geometry is being recorded
+    for (geometry_canvas.data) |pixel| {
+        try std.testing.expectEqual(@as(u32, 0), pixel);
+    }
+
+    // Stars keep their magnitude, and nothing else has one
+    var star_count: usize = 0;
+    for (geometry.sprites.items) |sprite| {
+        if (sprite.magnitude != 0) {
+            star_count += 1;
+            try std.testing.expectEqual(@as(f32, 2.5), sprite.magnitude);
+        }
+    }
+    try std.testing.expectEqual(@as(usize, 1), star_count);
+
+    var replay_canvas = try Canvas.init(std.testing.allocator, canvas_settings);
+    defer replay_canvas.deinit(std.testing.allocator);
+
+    var vertex_index: usize = 0;
+    while (vertex_index + 1 < geometry.line_vertices.items.len) : (vertex_index += 2) {
+        const a = geometry.line_vertices.items[vertex_index];
+        const b = geometry.line_vertices.items[vertex_index + 1];
+        replay_canvas.drawLine(Line{ .a = .{ .x = a.x, .y = a.y }, .b = .{ .x = b.x, .y = b.y } }, Pixel.fromU32(a.color));
+    }
+    for (geometry.sprites.items) |sprite| {
+        const center = Point{ .x = sprite.x, .y = sprite.y };
+        if (sprite.size > 1) {
+            replay_canvas.drawDisc(center, (sprite.size - 1) / 2, Pixel.fromU32(sprite.color));
+        } else {
+            replay_canvas.setPixelAt(center, Pixel.fromU32(sprite.color));
+        }
+    }
+
+    try std.testing.expectEqualSlices(u32, pixel_canvas.data, replay_canvas.data);
+}
+
+test "resizing rebuilds the pixel mask" {
+    var canvas_settings = Canvas.Settings{
+        .width = 40,
+        .height = 40,
+        .draw_north_up = true,
+        .background_radius = 20,
+        .zoom_factor = 1.0,
+        .draw_asterisms = false,
+        .draw_constellation_grid = false,
+        .drag_speed = 0,
+        .limiting_magnitude = 8.5,
+        .highlighted_constellation = null,
+        .zodiac_only = false,
+        .draw_horizon_grid = false,
+        .draw_equatorial_grid = false,
+        .draw_ecliptic = false,
+        .draw_zodiac_signs = false,
+        .draw_solar_system = false,
+        .simulate_twilight = false,
+    };
+
+    var canvas = try Canvas.init(std.testing.allocator, canvas_settings);
+    defer canvas.deinit(std.testing.allocator);
+
+    canvas_settings.width = 100;
+    canvas_settings.height = 100;
+    canvas_settings.background_radius = 50;
+    canvas.settings = canvas_settings;
+    try canvas.resize(std.testing.allocator);
+
+    try std.testing.expectEqual(@as(usize, 100 * 100), canvas.data.len);
+    try std.testing.expectEqual(@as(usize, 100 * 100), canvas.pixel_mask.len);
+
+    // This point was outside of the old canvas, but is in the middle of the new sky circle
+    const white = Pixel.rgb(255, 255, 255);
+    canvas.setPixelAt(.{ .x = 50, .y = 50 }, white);
+    try std.testing.expectEqual(white.asU32(), canvas.data[50 * 100 + 50]);
+
+    // Corners are always outside of the sky circle
+    canvas.setPixelAt(.{ .x = 1, .y = 1 }, white);
+    try std.testing.expectEqual(@as(u32, 0), canvas.data[1 * 100 + 1]);
 }
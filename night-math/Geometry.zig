@@ -0,0 +1,100 @@
+//! The projected shapes that make up a frame. When a canvas has geometry attached, it records what it would have drawn here instead
+//! of writing to its pixel buffer, so that the frontend can draw the sky itself (for example with WebGL) at any resolution.
+
+const std = @import("std");
+const Allocator = std.mem.Allocator;
+
+const log = @import("log.zig");
+const math_utils = @import("math_utils.zig");
+const Point = math_utils.Point;
+
+const Canvas = @import("Canvas.zig");
+const Pixel = Canvas.Pixel;
+
+const Geometry = @This();
+
+/// The part of the sky that a shape was drawn for. Frontends can use this to style each part differently, for example when exporting
+/// a printable chart.
+pub const Layer = enum(u32) {
+    stars,
+    equatorial_grid,
+    ecliptic,
+    horizon_grid,
+    solar_system,
+    constellation_boundaries,
+    asterisms,
+    highlighted_constellation,
+};
+
+/// A filled, round point centered on `x` and `y`. `size` is the diameter in pixels, and `color` is a `Pixel` stored as a u32.
+/// `magnitude` is only set for stars, and is 0 for everything else.
+pub const Sprite = extern struct {
+    x: f32,
+    y: f32,
+    size: f32,
+    color: u32,
+    layer: Layer,
+    magnitude: f32,
+};
+
+/// One end of a line segment. Lines are stored as pairs of vertices.
+pub const LineVertex = extern struct {
+    x: f32,
+    y: f32,
+    color: u32,
+    layer: Layer,
+};
+
+allocator: Allocator,
+/// The layer that new shapes are added to.
+layer: Layer = .stars,
+sprites: std.ArrayListUnmanaged(Sprite) = .{},
+line_vertices: std.ArrayListUnmanaged(LineVertex) = .{},
+
+pub fn init(allocator: Allocator) Geometry {
+    return Geometry{ .allocator = allocator };
+}
+
+pub fn deinit(geometry: *Geometry) void {
+    geometry.sprites.deinit(geometry.allocator);
+    geometry.line_vertices.deinit(geometry.allocator);
+}
+
+/// Remove everything that's been recorded, keeping the memory around for the next frame.
+pub fn clear(geometry: *Geometry) void {
+    geometry.sprites.clearRetainingCapacity();
+    geometry.line_vertices.clearRetainingCapacity();
+}
+
+pub fn addSprite(geometry: *Geometry, center: Point, size: f32, color: Pixel) void {
+    geometry.appendSprite(center, size, color, 0);
+}
+
+/// Add a star, which is drawn as a single pixel but keeps its magnitude.
+pub fn addStar(geometry: *Geometry, center: Point, magnitude: f32, color: Pixel) void {
+    geometry.appendSprite(center, 1, color, magnitude);
+}
+
+fn appendSprite(geometry: *Geometry, center: Point, size: f32, color: Pixel, magnitude: f32) void {
+    const sprite = Sprite{
+        .x = center.x,
+        .y = center.y,
+        .size = size,
+        .color = color.asU32(),
+        .layer = geometry.layer,
+        .magnitude = magnitude,
+    };
+    geometry.sprites.append(geometry.allocator, sprite) catch {
+        log.err("Ran out of memory adding a sprite to the frame geometry", .{});
+    };
+}
+
+pub fn addLine(geometry: *Geometry, a: Point, b: Point, color: Pixel) void {
+    const vertices = [_]LineVertex{
+        .{ .x = a.x, .y = a.y, .color = color.asU32(), .layer = geometry.layer },
+        .{ .x = b.x, .y = b.y, .color = color.asU32(), .layer = geometry.layer },
+    };
+    geometry.line_vertices.appendSlice(geometry.allocator, &vertices) catch {
+        log.err("Ran out of memory adding a line to the frame geometry", .{});
+    };
+}
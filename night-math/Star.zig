@@ -22,9 +22,19 @@ pub const ExternStar = packed struct {
             .sin_declination = math.sin(declination),
             .cos_declination = math.cos(declination),
             .pixel = ext_star.getColor(),
+            .magnitude = ext_star.getMagnitude(),
         };
     }
 
+    /// Convert the brightness value back into an approximate visual magnitude. This reverses the conversion done in prepare-data,
+    /// so the brightest stars (which are clamped to 255) all come out around -1.8.
+    pub fn getMagnitude(star: ExternStar) f32 {
+        const dimmest_visible: f32 = 18.6;
+        const brightest_value: f32 = -4.6;
+        const display_factor = @as(f32, @floatFromInt(star.brightness)) / 255.0 - 0.15;
+        return dimmest_visible - display_factor * dimmest_visible + brightest_value;
+    }
+
     pub fn getColor(star: ExternStar) Pixel {
         var base_color = star.spec_type.getColor();
         base_color.a = @as(u8, @intCast(std.math.clamp(@as(u16, @intCast(star.brightness)) + 30, 0, @as(u16, 255))));
@@ -76,3 +86,4 @@ declination: f32,
 sin_declination: f32,
 cos_declination: f32,
 pixel: Pixel,
+magnitude: f32,
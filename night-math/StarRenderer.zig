@@ -10,8 +10,12 @@ const Pixel = Canvas.Pixel;
 const star_math = @import("star_math.zig");
 const ObserverPosition = star_math.ObserverPosition;
 
+const solar_system = @import("solar_system.zig");
+const Body = solar_system.Body;
+
 const Star = @import("Star.zig");
 const Constellation = @import("Constellation.zig");
+const Geometry = @import("Geometry.zig");
 
 const StarRenderer = @This();
 
@@ -30,19 +34,102 @@ pub fn run(renderer: *StarRenderer, observer_latitude: f32, observer_longitude:
     const cos_latitude = std.math.cos(observer_latitude);
 
     const line_color = Pixel.rgba(255, 245, 194, 175);
+    const horizon_grid_color = Pixel.rgba(140, 200, 255, 110);
+    const equatorial_grid_color = Pixel.rgba(255, 170, 120, 90);
+    const equator_color = Pixel.rgba(255, 170, 120, 190);
+    const ecliptic_color = Pixel.rgba(255, 220, 90, 200);
+    const highlight_color = Pixel.rgb(255, 140, 105);
+
+    const limiting_magnitude = renderer.limitingMagnitude(pos);
+
+    renderer.setGeometryLayer(.stars);
+    renderer.canvas.projectAndRenderStarsWide(renderer.stars, local_sidereal_time, sin_latitude, cos_latitude, limiting_magnitude);
+
+    if (renderer.canvas.settings.draw_equatorial_grid) {
+        renderer.setGeometryLayer(.equatorial_grid);
+        renderer.canvas.drawEquatorialGrid(equatorial_grid_color, equator_color, local_sidereal_time, sin_latitude, cos_latitude);
+    }
+
+    if (renderer.canvas.settings.draw_ecliptic) {
+        renderer.setGeometryLayer(.ecliptic);
+        renderer.canvas.drawEcliptic(ecliptic_color, renderer.canvas.settings.draw_zodiac_signs, local_sidereal_time, sin_latitude, cos_latitude);
+    }
+
+    if (renderer.canvas.settings.draw_horizon_grid) {
+        renderer.setGeometryLayer(.horizon_grid);
+        renderer.canvas.drawHorizonGrid(horizon_grid_color);
+    }
 
-    renderer.canvas.projectAndRenderStarsWide(renderer.stars, local_sidereal_time, sin_latitude, cos_latitude);
+    if (renderer.canvas.settings.draw_solar_system) {
+        renderer.setGeometryLayer(.solar_system);
+        renderer.drawSolarSystem(pos, local_sidereal_time, sin_latitude, cos_latitude);
+    }
 
     if (renderer.canvas.settings.draw_constellation_grid or renderer.canvas.settings.draw_asterisms) {
         for (renderer.constellations) |constellation| {
             if (renderer.canvas.settings.zodiac_only and !constellation.is_zodiac) continue;
 
             if (renderer.canvas.settings.draw_constellation_grid) {
+                renderer.setGeometryLayer(.constellation_boundaries);
                 renderer.canvas.drawGrid(constellation, line_color, 1, local_sidereal_time, sin_latitude, cos_latitude);
             }
             if (renderer.canvas.settings.draw_asterisms) {
+                renderer.setGeometryLayer(.asterisms);
                 renderer.canvas.drawAsterism(constellation, line_color, 1, local_sidereal_time, sin_latitude, cos_latitude);
             }
         }
     }
+
+    if (renderer.canvas.settings.highlighted_constellation) |index| {
+        if (index < renderer.constellations.len) {
+            const constellation = renderer.constellations[index];
+            renderer.setGeometryLayer(.highlighted_constellation);
+            renderer.canvas.drawGrid(constellation, highlight_color, 2, local_sidereal_time, sin_latitude, cos_latitude);
+            renderer.canvas.drawAsterism(constellation, highlight_color, 3, local_sidereal_time, sin_latitude, cos_latitude);
+        }
+    }
+}
+
+/// Tag everything that's drawn from now on with `layer`, if the canvas is recording geometry.
+/// Get the magnitude of the faintest star that's drawn for the observer. Stars fainter than this aren't drawn, so they can't be picked either.
+pub fn limitingMagnitude(renderer: StarRenderer, pos: ObserverPosition) f32 {
+    // Light pollution and twilight both wash out faint stars, so whichever is brighter sets the limit
+    const twilight_limit = if (renderer.canvas.settings.simulate_twilight)
+        solar_system.twilightLimitingMagnitude(solar_system.getBodyAltitude(.sun, pos))
+    else
+        math.inf(f32);
+    return @min(renderer.canvas.settings.limiting_magnitude, twilight_limit);
+}
+
+fn setGeometryLayer(renderer: *StarRenderer, layer: Geometry.Layer) void {
+    if (renderer.canvas.geometry) |geometry| {
+        geometry.layer = layer;
+    }
+}
+
+/// Draw the Sun, Moon and planets on top of everything else. Bodies are drawn as discs with a fixed size on screen, since even the Sun
+/// and Moon would only be a few pixels across at their real size.
+fn drawSolarSystem(renderer: *StarRenderer, pos: ObserverPosition, local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) void {
+    const sun = solar_system.getBodyPosition(.sun, pos.timestamp);
+    const sun_point = renderer.canvas.coordToPoint(sun.sky_coord, local_sidereal_time, sin_latitude, cos_latitude, false);
+
+    for (0..solar_system.body_count) |body_index| {
+        const body: Body = @enumFromInt(body_index);
+        const position = if (body == .sun) sun else solar_system.getBodyPosition(body, pos.timestamp);
+        const point = renderer.canvas.coordToPoint(position.sky_coord, local_sidereal_time, sin_latitude, cos_latitude, true) orelse continue;
+
+        switch (body) {
+            .sun => renderer.canvas.drawDisc(point, 7, Pixel.rgb(255, 236, 150)),
+            .moon => {
+                // Point the lit side of the Moon towards where the Sun is drawn, even if the Sun is below the horizon
+                const sun_direction = if (sun_point) |s| math.atan2(s.y - point.y, s.x - point.x) else 0;
+                renderer.canvas.drawMoon(point, 7, position.phase_angle, sun_direction, Pixel.rgb(235, 235, 220), Pixel.rgb(45, 48, 58));
+            },
+            .mercury => renderer.canvas.drawDisc(point, 2, Pixel.rgb(200, 195, 190)),
+            .venus => renderer.canvas.drawDisc(point, 3, Pixel.rgb(255, 250, 225)),
+            .mars => renderer.canvas.drawDisc(point, 2, Pixel.rgb(255, 130, 80)),
+            .jupiter => renderer.canvas.drawDisc(point, 3, Pixel.rgb(245, 225, 190)),
+            .saturn => renderer.canvas.drawDisc(point, 2, Pixel.rgb(235, 215, 150)),
+        }
+    }
 }
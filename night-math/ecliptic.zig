@@ -0,0 +1,82 @@
+// Conversions between ecliptic and equatorial coordinates, and the Sun's position along the ecliptic.
+// Positions use the mean obliquity at J2000, which is more than precise enough for drawing the ecliptic on the sky map.
+
+const std = @import("std");
+const math = std.math;
+
+const math_utils = @import("math_utils.zig");
+const SkyCoord = @import("SkyCoord.zig");
+
+/// The tilt of the Earth's axis relative to the ecliptic, in radians.
+pub const obliquity: f32 = 23.4393 * (math.pi / 180.0);
+
+/// Milliseconds since the Unix epoch at J2000.0 (2000-01-01 12:00 UTC).
+const j2000_epoch_millis = 946_728_000_000;
+
+/// A position on the celestial sphere measured relative to the ecliptic. Both values are in radians.
+pub const EclipticCoord = struct {
+    longitude: f32 = 0,
+    latitude: f32 = 0,
+};
+
+/// Convert an ecliptic coordinate into right ascension and declination.
+pub fn toSkyCoord(ecliptic_coord: EclipticCoord) SkyCoord {
+    const sin_obliquity = math.sin(obliquity);
+    const cos_obliquity = math.cos(obliquity);
+
+    const sin_lat = math.sin(ecliptic_coord.latitude);
+    const cos_lat = math.cos(ecliptic_coord.latitude);
+    const sin_long = math.sin(ecliptic_coord.longitude);
+    const cos_long = math.cos(ecliptic_coord.longitude);
+
+    const declination = math.asin(sin_lat * cos_obliquity + cos_lat * sin_obliquity * sin_long);
+    const right_ascension = math.atan2(sin_long * cos_obliquity - (sin_lat / cos_lat) * sin_obliquity, cos_long);
+
+    return SkyCoord{ .right_ascension = normalizeAngle(right_ascension), .declination = declination };
+}
+
+/// Convert right ascension and declination into an ecliptic coordinate.
+pub fn fromSkyCoord(sky_coord: SkyCoord) EclipticCoord {
+    const sin_obliquity = math.sin(obliquity);
+    const cos_obliquity = math.cos(obliquity);
+
+    const sin_dec = math.sin(sky_coord.declination);
+    const cos_dec = math.cos(sky_coord.declination);
+    const sin_ra = math.sin(sky_coord.right_ascension);
+    const cos_ra = math.cos(sky_coord.right_ascension);
+
+    const latitude = math.asin(sin_dec * cos_obliquity - cos_dec * sin_obliquity * sin_ra);
+    const longitude = math.atan2(sin_ra * cos_obliquity + (sin_dec / cos_dec) * sin_obliquity, cos_ra);
+
+    return EclipticCoord{ .longitude = normalizeAngle(longitude), .latitude = latitude };
+}
+
+/// Get the Sun's ecliptic longitude (in radians) at the given time. This uses the low-precision formula from the Astronomical Almanac,
+/// which is accurate to about 0.01 degrees for dates close to the present.
+pub fn sunLongitude(timestamp: i64) f32 {
+    const days_since_j2000 = @as(f64, @floatFromInt(timestamp - j2000_epoch_millis)) / 86_400_000.0;
+
+    const mean_longitude = 280.460 + 0.9856474 * days_since_j2000;
+    const mean_anomaly = (357.528 + 0.9856003 * days_since_j2000) * (math.pi / 180.0);
+    const longitude = mean_longitude + 1.915 * @sin(mean_anomaly) + 0.020 * @sin(2 * mean_anomaly);
+
+    return normalizeAngle(@as(f32, @floatCast(math_utils.floatMod(longitude, 360.0) * (math.pi / 180.0))));
+}
+
+fn normalizeAngle(angle: f32) f32 {
+    return if (angle < 0) angle + 2 * math.pi else angle;
+}
+
+test "ecliptic round trip" {
+    const original = SkyCoord{ .right_ascension = 4.2, .declination = -0.35 };
+    const round_trip = toSkyCoord(fromSkyCoord(original));
+
+    try std.testing.expectApproxEqAbs(original.right_ascension, round_trip.right_ascension, 0.0001);
+    try std.testing.expectApproxEqAbs(original.declination, round_trip.declination, 0.0001);
+}
+
+test "sun longitude at the march equinox" {
+    // 2024-03-20 03:06 UTC
+    const longitude = sunLongitude(1_710_903_960_000);
+    try std.testing.expectApproxEqAbs(@as(f32, 0), math.sin(longitude), 0.001);
+}
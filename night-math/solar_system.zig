@@ -0,0 +1,347 @@
+// Positions of the Sun, Moon and naked-eye planets, computed from low-precision orbital elements. The elements and formulas come from
+// Paul Schlyter's "How to compute planetary positions", and are good to a few arcminutes for the Sun and inner planets and within
+// about a degree for the Moon, Jupiter and Saturn (the positions are geocentric, and the perturbations of Jupiter and Saturn are
+// ignored). That's more than enough for a sky map.
+
+const std = @import("std");
+const math = std.math;
+
+const SkyCoord = @import("SkyCoord.zig");
+const star_math = @import("star_math.zig");
+const ObserverPosition = star_math.ObserverPosition;
+
+const deg_to_rad = math.pi / 180.0;
+const rad_to_deg = 180.0 / math.pi;
+
+/// The number of bodies in `Body`.
+pub const body_count = @typeInfo(Body).@"enum".fields.len;
+
+/// Milliseconds since the Unix epoch at 1999-12-31 00:00 UTC, which is "day 0" for the orbital elements.
+const element_epoch_millis = 946_598_400_000;
+
+pub const Body = enum(u8) {
+    sun,
+    moon,
+    mercury,
+    venus,
+    mars,
+    jupiter,
+    saturn,
+};
+
+pub const BodyPosition = struct {
+    sky_coord: SkyCoord,
+    /// Apparent visual magnitude.
+    magnitude: f32,
+    /// The angle between the Sun and the Earth as seen from the body, in radians. 0 means fully lit, and pi means completely dark.
+    phase_angle: f32,
+
+    /// The fraction of the body's disc that's lit, in [0, 1].
+    pub fn illuminatedFraction(position: BodyPosition) f32 {
+        return (1.0 + math.cos(position.phase_angle)) / 2.0;
+    }
+};
+
+/// Keplerian orbital elements. Angles are in degrees, `a` is in AU for everything but the Moon (where it's in Earth radii).
+const OrbitalElements = struct {
+    longitude_of_node: f64,
+    inclination: f64,
+    argument_of_perihelion: f64,
+    semi_major_axis: f64,
+    eccentricity: f64,
+    mean_anomaly: f64,
+
+    fn at(body: Body, d: f64) OrbitalElements {
+        return switch (body) {
+            .sun => .{
+                .longitude_of_node = 0,
+                .inclination = 0,
+                .argument_of_perihelion = 282.9404 + 4.70935e-5 * d,
+                .semi_major_axis = 1.0,
+                .eccentricity = 0.016709 - 1.151e-9 * d,
+                .mean_anomaly = 356.0470 + 0.9856002585 * d,
+            },
+            .moon => .{
+                .longitude_of_node = 125.1228 - 0.0529538083 * d,
+                .inclination = 5.1454,
+                .argument_of_perihelion = 318.0634 + 0.1643573223 * d,
+                .semi_major_axis = 60.2666,
+                .eccentricity = 0.054900,
+                .mean_anomaly = 115.3654 + 13.0649929509 * d,
+            },
+            .mercury => .{
+                .longitude_of_node = 48.3313 + 3.24587e-5 * d,
+                .inclination = 7.0047 + 5.00e-8 * d,
+                .argument_of_perihelion = 29.1241 + 1.01444e-5 * d,
+                .semi_major_axis = 0.387098,
+                .eccentricity = 0.205635 + 5.59e-10 * d,
+                .mean_anomaly = 168.6562 + 4.0923344368 * d,
+            },
+            .venus => .{
+                .longitude_of_node = 76.6799 + 2.46590e-5 * d,
+                .inclination = 3.3946 + 2.75e-8 * d,
+                .argument_of_perihelion = 54.8910 + 1.38374e-5 * d,
+                .semi_major_axis = 0.723330,
+                .eccentricity = 0.006773 - 1.302e-9 * d,
+                .mean_anomaly = 48.0052 + 1.6021302244 * d,
+            },
+            .mars => .{
+                .longitude_of_node = 49.5574 + 2.11081e-5 * d,
+                .inclination = 1.8497 - 1.78e-8 * d,
+                .argument_of_perihelion = 286.5016 + 2.92961e-5 * d,
+                .semi_major_axis = 1.523688,
+                .eccentricity = 0.093405 + 2.516e-9 * d,
+                .mean_anomaly = 18.6021 + 0.5240207766 * d,
+            },
+            .jupiter => .{
+                .longitude_of_node = 100.4542 + 2.76854e-5 * d,
+                .inclination = 1.3030 - 1.557e-7 * d,
+                .argument_of_perihelion = 273.8777 + 1.64505e-5 * d,
+                .semi_major_axis = 5.20256,
+                .eccentricity = 0.048498 + 4.469e-9 * d,
+                .mean_anomaly = 19.8950 + 0.0830853001 * d,
+            },
+            .saturn => .{
+                .longitude_of_node = 113.6634 + 2.38980e-5 * d,
+                .inclination = 2.4886 - 1.081e-7 * d,
+                .argument_of_perihelion = 339.3939 + 2.97661e-5 * d,
+                .semi_major_axis = 9.55475,
+                .eccentricity = 0.055546 - 9.499e-9 * d,
+                .mean_anomaly = 316.9670 + 0.0334442282 * d,
+            },
+        };
+    }
+
+    /// Get the position of the body in ecliptic rectangular coordinates, centered on whatever the body orbits.
+    fn position(elements: OrbitalElements) [3]f64 {
+        const e = elements.eccentricity;
+        const mean_anomaly = normalizeDegrees(elements.mean_anomaly) * deg_to_rad;
+
+        // Solve Kepler's equation. The eccentricities here are small enough that a few iterations are plenty.
+        var eccentric_anomaly = mean_anomaly + e * @sin(mean_anomaly) * (1.0 + e * @cos(mean_anomaly));
+        var iteration: usize = 0;
+        while (iteration < 5) : (iteration += 1) {
+            eccentric_anomaly -= (eccentric_anomaly - e * @sin(eccentric_anomaly) - mean_anomaly) / (1.0 - e * @cos(eccentric_anomaly));
+        }
+
+        const xv = elements.semi_major_axis * (@cos(eccentric_anomaly) - e);
+        const yv = elements.semi_major_axis * @sqrt(1.0 - e * e) * @sin(eccentric_anomaly);
+        const true_anomaly = math.atan2(yv, xv);
+        const distance = @sqrt(xv * xv + yv * yv);
+
+        const node = elements.longitude_of_node * deg_to_rad;
+        const inclination = elements.inclination * deg_to_rad;
+        const latitude_argument = true_anomaly + elements.argument_of_perihelion * deg_to_rad;
+
+        return .{
+            distance * (@cos(node) * @cos(latitude_argument) - @sin(node) * @sin(latitude_argument) * @cos(inclination)),
+            distance * (@sin(node) * @cos(latitude_argument) + @cos(node) * @sin(latitude_argument) * @cos(inclination)),
+            distance * @sin(latitude_argument) * @sin(inclination),
+        };
+    }
+};
+
+/// Get the position, brightness and phase of a body at the given time.
+pub fn getBodyPosition(body: Body, timestamp: i64) BodyPosition {
+    const d = @as(f64, @floatFromInt(timestamp - element_epoch_millis)) / 86_400_000.0;
+
+    // Everything is seen from the Earth, so the Sun's position is needed for every body
+    const sun = OrbitalElements.at(.sun, d).position();
+    const sun_distance = length(sun);
+
+    const geocentric: [3]f64 = switch (body) {
+        .sun => sun,
+        .moon => moonPosition(d),
+        else => blk: {
+            const heliocentric = OrbitalElements.at(body, d).position();
+            break :blk .{ heliocentric[0] + sun[0], heliocentric[1] + sun[1], heliocentric[2] + sun[2] };
+        },
+    };
+
+    const distance = length(geocentric);
+    const sky_coord = eclipticToSkyCoord(geocentric, d);
+
+    if (body == .sun) {
+        return BodyPosition{ .sky_coord = sky_coord, .magnitude = -26.74, .phase_angle = 0 };
+    }
+
+    // Distance between the body and the Sun. For the Moon this is close enough to the Earth-Sun distance that it doesn't matter.
+    const sun_vector = [3]f64{ geocentric[0] - sun[0], geocentric[1] - sun[1], geocentric[2] - sun[2] };
+    const heliocentric_distance = if (body == .moon) sun_distance else length(sun_vector);
+
+    const phase_angle = if (body == .moon) blk: {
+        // The Moon's distance is in Earth radii, so work out the phase from the elongation instead of the triangle of distances
+        const cos_elongation = (geocentric[0] * sun[0] + geocentric[1] * sun[1] + geocentric[2] * sun[2]) / (distance * sun_distance);
+        break :blk math.pi - math.acos(math.clamp(cos_elongation, -1.0, 1.0));
+    } else math.acos(math.clamp(
+        (heliocentric_distance * heliocentric_distance + distance * distance - sun_distance * sun_distance) / (2 * heliocentric_distance * distance),
+        -1.0,
+        1.0,
+    ));
+
+    const phase_degrees = phase_angle * rad_to_deg;
+    const distance_term = 5.0 * math.log10(heliocentric_distance * distance);
+    const magnitude = switch (body) {
+        .moon => -21.62 + distance_term + 0.026 * phase_degrees + 4.0e-9 * math.pow(f64, phase_degrees, 4),
+        .mercury => -0.36 + distance_term + 0.027 * phase_degrees + 2.2e-13 * math.pow(f64, phase_degrees, 6),
+        .venus => -4.34 + distance_term + 0.013 * phase_degrees + 4.2e-7 * math.pow(f64, phase_degrees, 3),
+        .mars => -1.51 + distance_term + 0.016 * phase_degrees,
+        .jupiter => -9.25 + distance_term + 0.014 * phase_degrees,
+        .saturn => -9.0 + distance_term + 0.044 * phase_degrees,
+        .sun => unreachable,
+    };
+
+    return BodyPosition{
+        .sky_coord = sky_coord,
+        .magnitude = @floatCast(magnitude),
+        .phase_angle = @floatCast(phase_angle),
+    };
+}
+
+/// The Moon's geocentric position, in Earth radii. The orbital elements alone are off by several degrees, so the largest perturbations
+/// (caused by the Sun) are added in.
+fn moonPosition(d: f64) [3]f64 {
+    const elements = OrbitalElements.at(.moon, d);
+    const uncorrected = elements.position();
+    const distance = length(uncorrected);
+
+    const sun_elements = OrbitalElements.at(.sun, d);
+    const sun_mean_anomaly = sun_elements.mean_anomaly * deg_to_rad;
+    const sun_mean_longitude = (sun_elements.mean_anomaly + sun_elements.argument_of_perihelion) * deg_to_rad;
+    const moon_mean_anomaly = elements.mean_anomaly * deg_to_rad;
+    const moon_mean_longitude = (elements.mean_anomaly + elements.argument_of_perihelion + elements.longitude_of_node) * deg_to_rad;
+    const elongation = moon_mean_longitude - sun_mean_longitude;
+    const latitude_argument = moon_mean_longitude - elements.longitude_of_node * deg_to_rad;
+
+    const longitude = math.atan2(uncorrected[1], uncorrected[0]) + deg_to_rad * (-1.274 * @sin(moon_mean_anomaly - 2 * elongation) +
+        0.658 * @sin(2 * elongation) -
+        0.186 * @sin(sun_mean_anomaly) -
+        0.059 * @sin(2 * moon_mean_anomaly - 2 * elongation) -
+        0.057 * @sin(moon_mean_anomaly - 2 * elongation + sun_mean_anomaly) +
+        0.053 * @sin(moon_mean_anomaly + 2 * elongation));
+    const latitude = math.atan2(uncorrected[2], @sqrt(uncorrected[0] * uncorrected[0] + uncorrected[1] * uncorrected[1])) + deg_to_rad * (-0.173 * @sin(latitude_argument - 2 * elongation));
+    const corrected_distance = distance - 0.58 * @cos(moon_mean_anomaly - 2 * elongation) - 0.46 * @cos(2 * elongation);
+
+    return .{
+        corrected_distance * @cos(longitude) * @cos(latitude),
+        corrected_distance * @sin(longitude) * @cos(latitude),
+        corrected_distance * @sin(latitude),
+    };
+}
+
+/// Rotate a geocentric ecliptic position into the equatorial frame and convert it to right ascension and declination.
+fn eclipticToSkyCoord(ecliptic_position: [3]f64, d: f64) SkyCoord {
+    const obliquity = (23.4393 - 3.563e-7 * d) * deg_to_rad;
+    const x = ecliptic_position[0];
+    const y = ecliptic_position[1] * @cos(obliquity) - ecliptic_position[2] * @sin(obliquity);
+    const z = ecliptic_position[1] * @sin(obliquity) + ecliptic_position[2] * @cos(obliquity);
+
+    var right_ascension = math.atan2(y, x);
+    if (right_ascension < 0) right_ascension += 2 * math.pi;
+    const declination = math.atan2(z, @sqrt(x * x + y * y));
+
+    return SkyCoord{ .right_ascension = @floatCast(right_ascension), .declination = @floatCast(declination) };
+}
+
+/// The altitude that a body's center is at when it appears to touch the horizon, taking atmospheric refraction (and for the Sun and
+/// Moon, the size of their discs) into account.
+fn horizonAltitude(body: Body) f32 {
+    return switch (body) {
+        .sun => -0.833 * deg_to_rad,
+        .moon => 0.125 * deg_to_rad,
+        else => -0.567 * deg_to_rad,
+    };
+}
+
+/// Get the altitude (in radians) of a body's center in the observer's sky.
+pub fn getBodyAltitude(body: Body, observer: ObserverPosition) f32 {
+    const sky_coord = getBodyPosition(body, observer.timestamp).sky_coord;
+    const hour_angle = observer.localSiderealTime() - sky_coord.right_ascension;
+    const sin_alt = math.sin(sky_coord.declination) * math.sin(observer.latitude) + math.cos(sky_coord.declination) * math.cos(observer.latitude) * math.cos(hour_angle);
+    return math.asin(math.clamp(sin_alt, -1.0, 1.0));
+}
+
+/// The faintest magnitude that can be seen with the Sun at the given altitude. In full daylight nothing in the star catalogue is visible,
+/// and the limit gets fainter through civil, nautical and astronomical twilight until the sky is fully dark at -18 degrees.
+pub fn twilightLimitingMagnitude(sun_altitude: f32) f32 {
+    // Pairs of (sun altitude in degrees, limiting magnitude), from brightest to darkest
+    const steps = [_][2]f32{
+        .{ 0, -2.0 },
+        .{ -6, 1.5 },
+        .{ -12, 4.5 },
+        .{ -18, 8.5 },
+    };
+
+    const altitude_degrees = sun_altitude * rad_to_deg;
+    if (altitude_degrees >= steps[0][0]) return steps[0][1];
+
+    for (steps[0 .. steps.len - 1], steps[1..]) |brighter, darker| {
+        if (altitude_degrees >= darker[0]) {
+            const progress = (brighter[0] - altitude_degrees) / (brighter[0] - darker[0]);
+            return brighter[1] + progress * (darker[1] - brighter[1]);
+        }
+    }
+
+    return math.inf(f32);
+}
+
+/// Find the next time after `observer.timestamp` that a body rises (if `rising` is true) or sets. Returns `null` if that doesn't happen
+/// in the next 24 hours, such as when the body is circumpolar.
+pub fn findNextHorizonCrossing(body: Body, observer: ObserverPosition, rising: bool) ?i64 {
+    const step_millis = 10 * 60 * 1000;
+    const search_millis = 24 * 60 * 60 * 1000;
+    const threshold = horizonAltitude(body);
+
+    var position = observer;
+    var previous_above = getBodyAltitude(body, position) > threshold;
+    var offset: i64 = step_millis;
+    while (offset <= search_millis) : (offset += step_millis) {
+        position.timestamp = observer.timestamp + offset;
+        const above = getBodyAltitude(body, position) > threshold;
+        if (above != previous_above and above == rising) {
+            // Narrow down the crossing to within a few seconds by bisecting the last step
+            var low = position.timestamp - step_millis;
+            var high = position.timestamp;
+            while (high - low > 5000) {
+                position.timestamp = @divFloor(low + high, 2);
+                if ((getBodyAltitude(body, position) > threshold) == rising) {
+                    high = position.timestamp;
+                } else {
+                    low = position.timestamp;
+                }
+            }
+            return high;
+        }
+        previous_above = above;
+    }
+
+    return null;
+}
+
+fn length(vector: [3]f64) f64 {
+    return @sqrt(vector[0] * vector[0] + vector[1] * vector[1] + vector[2] * vector[2]);
+}
+
+fn normalizeDegrees(degrees: f64) f64 {
+    return @mod(degrees, 360.0);
+}
+
+test "sun position at the june solstice" {
+    // 2024-06-20 20:51 UTC, when the Sun is at its furthest north
+    const position = getBodyPosition(.sun, 1_718_916_660_000);
+    try std.testing.expectApproxEqAbs(@as(f32, 23.44 * deg_to_rad), position.sky_coord.declination, 0.1 * deg_to_rad);
+    try std.testing.expectApproxEqAbs(@as(f32, math.pi / 2.0), position.sky_coord.right_ascension, 0.01);
+}
+
+test "full moon is fully lit" {
+    // 2024-01-25 17:54 UTC
+    const position = getBodyPosition(.moon, 1_706_205_240_000);
+    try std.testing.expect(position.illuminatedFraction() > 0.99);
+    try std.testing.expect(position.magnitude < -12.0);
+}
+
+test "twilight limiting magnitude" {
+    try std.testing.expectEqual(@as(f32, -2.0), twilightLimitingMagnitude(10 * deg_to_rad));
+    try std.testing.expectApproxEqAbs(@as(f32, 3.0), twilightLimitingMagnitude(-9 * deg_to_rad), 0.001);
+    try std.testing.expect(math.isInf(twilightLimitingMagnitude(-30 * deg_to_rad)));
+}
@@ -15,12 +15,22 @@ const Line = math_utils.Line;
 const FixedPoint = @import("fixed_point.zig").DefaultFixedPoint;
 
 const Constellation = @import("Constellation.zig");
+const Star = @import("Star.zig");
+const SkyCoord = @import("SkyCoord.zig");
+const ecliptic = @import("ecliptic.zig");
+const solar_system = @import("solar_system.zig");
 
 pub const Coord = packed struct {
     latitude: f32,
     longitude: f32,
 };
 
+/// A position in the observer's local sky. Both values are in radians. Azimuth is measured from north towards east.
+pub const HorizontalCoord = struct {
+    altitude: f32,
+    azimuth: f32,
+};
+
 pub const ObserverPosition = struct {
     latitude: f32,
     longitude: f32,
@@ -38,6 +48,25 @@ fn getPartialLocalSiderealTime(timestamp: i64) f32 {
     return @as(f32, @floatCast(math_utils.floatMod(lst, 2 * math.pi)));
 }
 
+/// Convert a position in the observer's local sky to a position on the celestial sphere. This is the inverse of the altitude/azimuth
+/// calculation done in `Canvas.coordToPoint`.
+pub fn horizontalToSkyCoord(horizontal: HorizontalCoord, local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) SkyCoord {
+    const sin_alt = math.sin(horizontal.altitude);
+    const cos_alt = math.cos(horizontal.altitude);
+
+    const sin_dec = math.clamp(sin_alt * sin_latitude + cos_alt * cos_latitude * math.cos(horizontal.azimuth), -1.0, 1.0);
+    const declination = math.asin(sin_dec);
+
+    const cos_hour_angle = math.clamp((sin_alt - sin_latitude * sin_dec) / (cos_latitude * math.cos(declination)), -1.0, 1.0);
+    // Objects in the eastern half of the sky haven't crossed the meridian yet, so their hour angle is negative
+    const hour_angle = if (math.sin(horizontal.azimuth) > 0) -math.acos(cos_hour_angle) else math.acos(cos_hour_angle);
+
+    var right_ascension = math_utils.floatMod(local_sidereal_time - hour_angle, 2 * math.pi);
+    if (right_ascension < 0) right_ascension += 2 * math.pi;
+
+    return SkyCoord{ .right_ascension = right_ascension, .declination = declination };
+}
+
 /// Get the constellation that's currently at the point on the canvas.
 pub fn getConstellationAtPoint(canvas: Canvas, point: Point, constellations: []Constellation, local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32) ?usize {
     if (!canvas.isInsideCircle(point)) return null;
@@ -53,6 +82,79 @@ pub fn getConstellationAtPoint(canvas: Canvas, point: Point, constellations: []C
     return null;
 }
 
+/// Get the star that's drawn closest to the point on the canvas. Stars further than `max_distance` pixels away from the point
+/// are ignored, so this will return `null` if the point is over empty sky. Stars fainter than `limiting_magnitude` aren't drawn, so
+/// they're ignored too.
+pub fn getStarAtPoint(canvas: Canvas, point: Point, stars: std.MultiArrayList(Star), local_sidereal_time: f32, sin_latitude: f32, cos_latitude: f32, limiting_magnitude: f32, max_distance: f32) ?usize {
+    if (!canvas.isInsideCircle(point)) return null;
+
+    const star_slice = stars.slice();
+    const right_ascensions = star_slice.items(.right_ascension);
+    const declinations = star_slice.items(.declination);
+    const magnitudes = star_slice.items(.magnitude);
+
+    var closest_index: ?usize = null;
+    var closest_distance = max_distance;
+    for (right_ascensions, declinations, magnitudes, 0..) |right_ascension, declination, magnitude, star_index| {
+        if (magnitude > limiting_magnitude) continue;
+
+        const sky_coord = SkyCoord{ .right_ascension = right_ascension, .declination = declination };
+        const star_point = canvas.coordToPoint(sky_coord, local_sidereal_time, sin_latitude, cos_latitude, true) orelse continue;
+        // Stars outside of the circle are masked out, so they can't be picked
+        if (!canvas.isInsideCircle(star_point)) continue;
+
+        const distance = star_point.getDist(point);
+        if (distance < closest_distance) {
+            closest_distance = distance;
+            closest_index = star_index;
+        }
+    }
+
+    return closest_index;
+}
+
+/// Get the Sun, Moon or planet that's drawn closest to the point on the canvas. Bodies further than `max_distance` pixels away from the
+/// point are ignored.
+pub fn getBodyAtPoint(canvas: Canvas, point: Point, observer: ObserverPosition, max_distance: f32) ?solar_system.Body {
+    if (!canvas.isInsideCircle(point)) return null;
+
+    const local_sidereal_time = observer.localSiderealTime();
+    const sin_latitude = math.sin(observer.latitude);
+    const cos_latitude = math.cos(observer.latitude);
+
+    var closest_body: ?solar_system.Body = null;
+    var closest_distance = max_distance;
+    for (0..solar_system.body_count) |body_index| {
+        const body: solar_system.Body = @enumFromInt(body_index);
+        const position = solar_system.getBodyPosition(body, observer.timestamp);
+        const body_point = canvas.coordToPoint(position.sky_coord, local_sidereal_time, sin_latitude, cos_latitude, true) orelse continue;
+
+        const distance = body_point.getDist(point);
+        if (distance < closest_distance) {
+            closest_distance = distance;
+            closest_body = body;
+        }
+    }
+
+    return closest_body;
+}
+
+/// If the point on the canvas is within `max_distance` pixels of the ecliptic, get the ecliptic longitude of the closest point on the
+/// ecliptic. Otherwise, returns `null`.
+pub fn getEclipticLongitudeAtPoint(canvas: Canvas, point: Point, observer: ObserverPosition, max_distance: f32) ?f32 {
+    if (!canvas.isInsideCircle(point)) return null;
+
+    const sky_coord = canvas.pointToCoord(point, observer) orelse return null;
+    const ecliptic_coord = ecliptic.fromSkyCoord(sky_coord);
+
+    // Project the ecliptic back onto the canvas at the same longitude so that the distance is measured in pixels, like the line is drawn
+    const ecliptic_sky_coord = ecliptic.toSkyCoord(.{ .longitude = ecliptic_coord.longitude, .latitude = 0 });
+    const local_sidereal_time = observer.localSiderealTime();
+    const ecliptic_point = canvas.coordToPoint(ecliptic_sky_coord, local_sidereal_time, math.sin(observer.latitude), math.cos(observer.latitude), false) orelse return null;
+
+    return if (ecliptic_point.getDist(point) <= max_distance) ecliptic_coord.longitude else null;
+}
+
 pub fn dragAndMove(drag_start_x: f32, drag_start_y: f32, drag_end_x: f32, drag_end_y: f32, drag_speed: f32) Coord {
     const dist_x = drag_end_x - drag_start_x;
     const dist_y = drag_end_y - drag_start_y;
@@ -4,11 +4,11 @@ const builtin = @import("builtin");
 const log = @import("log.zig");
 
 const Canvas = @import("Canvas.zig");
-const Pixel = Canvas.Pixel;
 
 const Point = @import("math_utils.zig").Point;
 
 const StarRenderer = @import("StarRenderer.zig");
+const Geometry = @import("Geometry.zig");
 
 const Star = @import("Star.zig");
 const ExternStar = Star.ExternStar;
@@ -21,6 +21,8 @@ const Coord = star_math.Coord;
 const ObserverPosition = star_math.ObserverPosition;
 
 const GreatCircle = @import("GreatCircle.zig");
+const ecliptic = @import("ecliptic.zig");
+const solar_system = @import("solar_system.zig");
 
 const FixedPoint = @import("fixed_point.zig").DefaultFixedPoint;
 
@@ -30,6 +32,13 @@ const allocator = switch (builtin.cpu.arch) {
 };
 
 const num_waypoints = 150;
+
+/// How close (in CSS pixels) a point has to be to a star in order to pick it.
+const star_pick_radius = 8;
+/// How close (in CSS pixels) a point has to be to the Sun, Moon or a planet in order to pick it.
+const body_pick_radius = 10;
+/// How close (in CSS pixels) a point has to be to the ecliptic in order to be considered over it.
+const ecliptic_pick_radius = 6;
 var waypoints: [num_waypoints]Coord = undefined;
 
 var result_data: []u8 = undefined;
@@ -43,10 +52,20 @@ pub const ExternCanvasSettings = packed struct {
     background_radius: f32,
     zoom_factor: f32,
     drag_speed: f32,
+    pixel_ratio: f32,
+    limiting_magnitude: f32,
+    /// The index of the constellation to highlight, or -1 to not highlight any.
+    highlighted_constellation: i32,
     draw_north_up: u8,
     draw_constellation_grid: u8,
     draw_asterisms: u8,
     zodiac_only: u8,
+    draw_horizon_grid: u8,
+    draw_equatorial_grid: u8,
+    draw_ecliptic: u8,
+    draw_zodiac_signs: u8,
+    draw_solar_system: u8,
+    simulate_twilight: u8,
 
     fn getCanvasSettings(self: ExternCanvasSettings) Canvas.Settings {
         return Canvas.Settings{
@@ -55,10 +74,19 @@ pub const ExternCanvasSettings = packed struct {
             .background_radius = self.background_radius,
             .zoom_factor = self.zoom_factor,
             .drag_speed = self.drag_speed,
+            .pixel_ratio = self.pixel_ratio,
+            .limiting_magnitude = self.limiting_magnitude,
+            .highlighted_constellation = if (self.highlighted_constellation < 0) null else @as(usize, @intCast(self.highlighted_constellation)),
             .draw_north_up = self.draw_north_up == 1,
             .draw_constellation_grid = self.draw_constellation_grid == 1,
             .draw_asterisms = self.draw_asterisms == 1,
             .zodiac_only = self.zodiac_only == 1,
+            .draw_horizon_grid = self.draw_horizon_grid == 1,
+            .draw_equatorial_grid = self.draw_equatorial_grid == 1,
+            .draw_ecliptic = self.draw_ecliptic == 1,
+            .draw_zodiac_signs = self.draw_zodiac_signs == 1,
+            .draw_solar_system = self.draw_solar_system == 1,
+            .simulate_twilight = self.simulate_twilight == 1,
         };
     }
 };
@@ -88,14 +116,20 @@ pub export fn initialize(settings: *ExternCanvasSettings) *StarRenderer {
     return star_renderer;
 }
 
+/// Update the canvas settings. If the canvas size changed, the pixel buffer is reallocated and a pointer to the new buffer is returned
+/// (with its length in result_data, like `getImageData`). Otherwise, returns null.
 pub export fn updateCanvasSettings(star_renderer: *StarRenderer, settings: *ExternCanvasSettings) ?[*]u32 {
+    const old_settings = star_renderer.canvas.settings;
     const new_settings = settings.getCanvasSettings();
-    if (new_settings.width != star_renderer.canvas.settings.width or new_settings.height != star_renderer.canvas.settings.height) {
-        star_renderer.canvas.data = allocator.realloc(star_renderer.canvas.data, new_settings.width * new_settings.height) catch unreachable;
-        star_renderer.canvas.settings = new_settings;
+    star_renderer.canvas.settings = new_settings;
+
+    if (new_settings.width != old_settings.width or new_settings.height != old_settings.height) {
+        star_renderer.canvas.resize(allocator) catch @panic("OOM for Canvas");
         return getImageData(star_renderer);
     }
-    star_renderer.canvas.settings = new_settings;
+    if (new_settings.background_radius != old_settings.background_radius) {
+        star_renderer.canvas.updatePixelMask();
+    }
     return null;
 }
 
@@ -177,14 +211,45 @@ pub export fn resetImageData(star_renderer: *StarRenderer) void {
     star_renderer.canvas.resetImageData();
 }
 
+/// Choose whether frames are drawn into the pixel buffer (the default) or recorded as geometry, for frontends that draw the sky
+/// themselves. While geometry is being recorded the pixel buffer isn't touched.
+pub export fn setGeometryOutput(star_renderer: *StarRenderer, enabled: u8) void {
+    if (enabled == 1) {
+        if (star_renderer.canvas.geometry != null) return;
+        const geometry = allocator.create(Geometry) catch @panic("OOM for Geometry");
+        geometry.* = Geometry.init(allocator);
+        star_renderer.canvas.geometry = geometry;
+    } else if (star_renderer.canvas.geometry) |geometry| {
+        geometry.deinit();
+        allocator.destroy(geometry);
+        star_renderer.canvas.geometry = null;
+    }
+}
+
+/// Returns a pointer to the sprites recorded for the last frame, and sets the number of sprites into the first slot of result_data.
+/// Returns null if geometry isn't being recorded.
+pub export fn getGeometrySprites(star_renderer: *StarRenderer) ?[*]Geometry.Sprite {
+    const geometry = star_renderer.canvas.geometry orelse return null;
+    setResult(@as(u32, @intCast(geometry.sprites.items.len)), 0);
+    return geometry.sprites.items.ptr;
+}
+
+/// Returns a pointer to the line vertices recorded for the last frame, and sets the number of vertices into the first slot of
+/// result_data. Every two vertices make up one line. Returns null if geometry isn't being recorded.
+pub export fn getGeometryLines(star_renderer: *StarRenderer) ?[*]Geometry.LineVertex {
+    const geometry = star_renderer.canvas.geometry orelse return null;
+    setResult(@as(u32, @intCast(geometry.line_vertices.items.len)), 0);
+    return geometry.line_vertices.items.ptr;
+}
+
 /// The main rendering function. This will render all of the stars and, if turned on, the constellation asterisms and/or boundaries.
 pub export fn projectStarsAndConstellations(star_renderer: *StarRenderer, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) void {
     star_renderer.run(observer_latitude, observer_longitude, observer_timestamp);
 }
 
-/// Given a point on the canvas, determine which constellation (if any (but there should always be one)) is currently at that point. Once
-/// the constellation is found, draw a thicker line over that constellation's boundary and/or asterism to highlight it.
-/// Finally, return the index of the constellation so that the JS part of the frontend can show the constellation info.
+/// Given a point on the canvas, determine which constellation (if any (but there should always be one)) is currently at that point, and
+/// return its index so that the JS part of the frontend can show the constellation info. To highlight the constellation, set
+/// `highlighted_constellation` in the canvas settings.
 pub export fn getConstellationAtPoint(star_renderer: *StarRenderer, x: f32, y: f32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) isize {
     const point = Point{ .x = x, .y = y };
 
@@ -194,15 +259,142 @@ pub export fn getConstellationAtPoint(star_renderer: *StarRenderer, x: f32, y: f
     const cos_lat = std.math.cos(observer_latitude);
 
     const index = star_math.getConstellationAtPoint(star_renderer.canvas, point, star_renderer.constellations, local_sidereal_time, sin_lat, cos_lat);
-    if (index) |i| {
-        if (star_renderer.canvas.settings.draw_constellation_grid) {
-            star_renderer.canvas.drawGrid(star_renderer.constellations[i], Pixel.rgb(255, 255, 255), 3, local_sidereal_time, sin_lat, cos_lat);
-        }
-        if (star_renderer.canvas.settings.draw_asterisms) {
-            star_renderer.canvas.drawAsterism(star_renderer.constellations[i], Pixel.rgb(255, 255, 255), 3, local_sidereal_time, sin_lat, cos_lat);
-        }
-        return @as(isize, @intCast(i));
-    } else return -1;
+    return if (index) |i| @as(isize, @intCast(i)) else -1;
+}
+
+/// Given a point on the canvas, find the closest star that's drawn near it. If there is one, then its `ExternStar` data is copied into
+/// `result_data` and its index is returned. Otherwise, returns -1.
+pub export fn getStarAtPoint(star_renderer: *StarRenderer, x: f32, y: f32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) isize {
+    const point = Point{ .x = x, .y = y };
+
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+    const local_sidereal_time = pos.localSiderealTime();
+    const sin_lat = std.math.sin(observer_latitude);
+    const cos_lat = std.math.cos(observer_latitude);
+
+    const index = star_math.getStarAtPoint(star_renderer.canvas, point, star_renderer.stars, local_sidereal_time, sin_lat, cos_lat, star_renderer.limitingMagnitude(pos), pickRadius(star_renderer, star_pick_radius)) orelse return -1;
+
+    // The renderer only keeps the projected star data, so go back to the embedded data to get the original star. Stars are loaded in the
+    // same order that they're stored in, so the indices match.
+    const stars: []const ExternStar = @alignCast(std.mem.bytesAsSlice(ExternStar, embeded_star_data[0..]));
+    const extern_star = stars[index];
+    const star_bytes = std.mem.asBytes(&extern_star);
+    @memcpy(result_data[0..@sizeOf(ExternStar)], star_bytes[0..@sizeOf(ExternStar)]);
+
+    return @as(isize, @intCast(index));
+}
+
+/// Given a point on the canvas, compute the altitude and azimuth of the sky drawn at that point. The altitude and azimuth are put into
+/// `result_data`. Returns 1 if the point is inside of the sky, and 0 if it's not (in which case `result_data` is left unchanged).
+pub export fn getHorizontalCoordAtPoint(star_renderer: *StarRenderer, x: f32, y: f32) u8 {
+    const point = Point{ .x = x, .y = y };
+    if (!star_renderer.canvas.isInsideCircle(point)) return 0;
+
+    const horizontal = star_renderer.canvas.pointToHorizontal(point);
+    setResult(horizontal.altitude, horizontal.azimuth);
+    return 1;
+}
+
+/// Given a point on the canvas, compute the sky coordinate drawn at that point. The right ascension and declination are put into
+/// `result_data`. Returns 1 if the point is inside of the sky, and 0 if it's not (in which case `result_data` is left unchanged).
+pub export fn getSkyCoordAtPoint(star_renderer: *StarRenderer, x: f32, y: f32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) u8 {
+    const point = Point{ .x = x, .y = y };
+    if (!star_renderer.canvas.isInsideCircle(point)) return 0;
+
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+    const sky_coord = star_renderer.canvas.pointToCoord(point, pos) orelse return 0;
+    setResult(sky_coord.right_ascension, sky_coord.declination);
+    return 1;
+}
+
+/// Get the point on the canvas where a position in the observer's local sky is drawn. The x and y values of the point are put into
+/// `result_data`. The point may be outside of the canvas.
+pub export fn getPointForHorizontalCoord(star_renderer: *StarRenderer, altitude: f32, azimuth: f32) void {
+    const point = star_renderer.canvas.horizontalToPoint(.{ .altitude = altitude, .azimuth = azimuth });
+    setResult(point.x, point.y);
+}
+
+/// Given a point on the canvas, find the Sun, Moon or planet that's drawn closest to it. If there is one, then its magnitude and the
+/// fraction of it that's lit are put into `result_data` and its index in `solar_system.Body` is returned. Otherwise, returns -1.
+pub export fn getBodyAtPoint(star_renderer: *StarRenderer, x: f32, y: f32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) isize {
+    const point = Point{ .x = x, .y = y };
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+
+    const body = star_math.getBodyAtPoint(star_renderer.canvas, point, pos, pickRadius(star_renderer, body_pick_radius)) orelse return -1;
+    const position = solar_system.getBodyPosition(body, observer_timestamp);
+    setResult(position.magnitude, position.illuminatedFraction());
+    return @as(isize, @intCast(@intFromEnum(body)));
+}
+
+/// Get the altitude of the Sun (in radians) for an observer. This is used to work out how bright the sky is.
+pub export fn getSunAltitude(observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) f32 {
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+    return solar_system.getBodyAltitude(.sun, pos);
+}
+
+/// Get the altitude of a Sun, Moon or planet (in radians) for an observer. Returns NaN if there's no body with the given index.
+pub export fn getBodyAltitude(body_index: u32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) f32 {
+    if (body_index >= solar_system.body_count) return std.math.nan(f32);
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+    return solar_system.getBodyAltitude(@enumFromInt(body_index), pos);
+}
+
+/// Find when a body next rises and sets for an observer. The number of minutes until it rises and until it sets are put into
+/// `result_data`. If the body doesn't rise (or set) in the next 24 hours, then that value is -1.
+pub export fn getBodyRiseSet(body_index: u32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) void {
+    if (body_index >= solar_system.body_count) {
+        setResult(@as(i32, -1), @as(i32, -1));
+        return;
+    }
+
+    const body: solar_system.Body = @enumFromInt(body_index);
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+
+    const rise = solar_system.findNextHorizonCrossing(body, pos, true);
+    const set = solar_system.findNextHorizonCrossing(body, pos, false);
+    setResult(minutesUntil(observer_timestamp, rise), minutesUntil(observer_timestamp, set));
+}
+
+/// Convert a pick radius from CSS pixels into canvas pixels.
+fn pickRadius(star_renderer: *const StarRenderer, css_radius: f32) f32 {
+    return css_radius * star_renderer.canvas.settings.pixel_ratio;
+}
+
+fn minutesUntil(from_timestamp: i64, to_timestamp: ?i64) i32 {
+    const timestamp = to_timestamp orelse return -1;
+    return @as(i32, @intCast(@divFloor(timestamp - from_timestamp, 60 * 1000)));
+}
+
+/// Given a point on the canvas, check if it's over the ecliptic. If it is, then the ecliptic longitude at that point and the Sun's current
+/// ecliptic longitude are put into `result_data`, and 1 is returned. Otherwise, returns 0.
+pub export fn getEclipticLongitudeAtPoint(star_renderer: *StarRenderer, x: f32, y: f32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) u8 {
+    const point = Point{ .x = x, .y = y };
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+
+    const longitude = star_math.getEclipticLongitudeAtPoint(star_renderer.canvas, point, pos, pickRadius(star_renderer, ecliptic_pick_radius)) orelse return 0;
+    setResult(longitude, ecliptic.sunLongitude(observer_timestamp));
+    return 1;
+}
+
+/// Get the point on the canvas where a sky coordinate is drawn. The x and y values of the point are put into `result_data`. Returns 1 if the
+/// coordinate is above the horizon, and 0 if it's not (in which case `result_data` is left unchanged).
+pub export fn getPointForSkyCoord(star_renderer: *StarRenderer, right_ascension: f32, declination: f32, observer_latitude: f32, observer_longitude: f32, observer_timestamp: i64) u8 {
+    const sky_coord = SkyCoord{ .right_ascension = right_ascension, .declination = declination };
+
+    const pos = ObserverPosition{ .latitude = observer_latitude, .longitude = observer_longitude, .timestamp = observer_timestamp };
+    const local_sidereal_time = pos.localSiderealTime();
+    const sin_lat = std.math.sin(observer_latitude);
+    const cos_lat = std.math.cos(observer_latitude);
+
+    const point = star_renderer.canvas.coordToPoint(sky_coord, local_sidereal_time, sin_lat, cos_lat, true) orelse return 0;
+    setResult(point.x, point.y);
+    return 1;
+}
+
+/// Get the local sidereal time (in radians) for an observer. This is the right ascension that is currently crossing the observer's meridian.
+pub export fn getLocalSiderealTime(observer_longitude: f32, observer_timestamp: i64) f32 {
+    const pos = ObserverPosition{ .latitude = 0, .longitude = observer_longitude, .timestamp = observer_timestamp };
+    return pos.localSiderealTime();
 }
 
 /// Compute a new coordiate based on the mouse drag state. Sets the latitude and longitude of the new coordinate into the respective slots of
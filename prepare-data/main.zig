@@ -56,22 +56,63 @@ pub const ConstellationInfo = packed struct {
 
 pub const Constellation = struct {
     name: []const u8,
+    /// The IAU abbreviation, e.g. ORI for Orion.
+    abbreviation: []const u8,
     epithet: []const u8,
+    /// The Bayer letters of the stars listed in the sky file, e.g. ALP for the brightest star.
+    star_names: [][]const u8,
     boundaries: []SkyCoord,
     asterism: []SkyCoord,
+    /// The area of the sky inside the boundaries, in square degrees.
+    area: f32,
     is_zodiac: bool = false,
 
     pub fn deinit(self: *Constellation, allocator: Allocator) void {
         allocator.free(self.boundaries);
         allocator.free(self.asterism);
         allocator.free(self.name);
+        allocator.free(self.abbreviation);
         allocator.free(self.epithet);
+        for (self.star_names) |star_name| allocator.free(star_name);
+        allocator.free(self.star_names);
     }
 
     pub fn getInfo(self: Constellation) ConstellationInfo {
         return .{ .num_boundaries = @as(u8, @intCast(self.boundaries.len)), .num_asterisms = @as(u8, @intCast(self.asterism.len)), .is_zodiac = if (self.is_zodiac) @as(u8, 1) else @as(u8, 0) };
     }
 
+    /// Get the area of the sky (in square degrees) inside of the constellation's boundaries. Each edge adds the area between
+    /// itself and the celestial equator, using the average declination of its ends. This is exact for edges that run along
+    /// a line of declination, which is how most of the IAU boundaries are drawn.
+    pub fn boundaryArea(self: Constellation) f32 {
+        if (self.boundaries.len < 3) return 0;
+
+        var equator_area: f32 = 0;
+        var winding: f32 = 0;
+        for (self.boundaries, 0..) |start, index| {
+            const end = self.boundaries[(index + 1) % self.boundaries.len];
+
+            var delta_ra = FixedPoint.toFloat(end.right_ascension) - FixedPoint.toFloat(start.right_ascension);
+            if (delta_ra > std.math.pi) delta_ra -= 2 * std.math.pi;
+            if (delta_ra < -std.math.pi) delta_ra += 2 * std.math.pi;
+
+            const start_dec = FixedPoint.toFloat(start.declination);
+            const end_dec = FixedPoint.toFloat(end.declination);
+            equator_area += delta_ra * (@sin(start_dec) + @sin(end_dec)) / 2;
+            winding += delta_ra;
+        }
+
+        // Boundaries that go all the way around a pole enclose one of the two caps that they split the sky into, rather
+        // than the area between them and the equator. Every constellation is less than half of the sky, so it's the smaller cap.
+        const area = if (@abs(winding) > std.math.pi) blk: {
+            const oriented_area = if (winding > 0) equator_area else -equator_area;
+            break :blk @min(2 * std.math.pi - oriented_area, 2 * std.math.pi + oriented_area);
+        } else @abs(equator_area);
+
+        const square_degrees_per_steradian = (180.0 / std.math.pi) * (180.0 / std.math.pi);
+        return area * square_degrees_per_steradian;
+    }
+
     pub fn parseSkyFile(allocator: Allocator, data: []const u8) !Constellation {
         const ParseState = enum {
             stars,
@@ -85,6 +126,9 @@ pub const Constellation = struct {
         var stars = std.StringHashMap(SkyCoord).init(allocator);
         defer stars.deinit();
 
+        var star_name_list = std.ArrayList([]const u8).init(allocator);
+        errdefer star_name_list.deinit();
+
         var boundary_list = std.ArrayList(SkyCoord).init(allocator);
         errdefer boundary_list.deinit();
 
@@ -114,6 +158,17 @@ pub const Constellation = struct {
                 continue;
             }
 
+            if (std.mem.indexOf(u8, line, "@abrev")) |_| {
+                var line_split = std.mem.splitScalar(u8, line, '=');
+                _ = line_split.next();
+                const abbreviation = line_split.next().?;
+                const trimmed_abbreviation = std.mem.trim(u8, abbreviation, " ");
+                const abbreviation_copy = try allocator.alloc(u8, trimmed_abbreviation.len);
+                @memcpy(abbreviation_copy, trimmed_abbreviation);
+                constellation.abbreviation = abbreviation_copy;
+                continue;
+            }
+
             if (std.mem.indexOf(u8, line, "@epithet")) |_| {
                 var line_split = std.mem.splitScalar(u8, line, '=');
                 _ = line_split.next();
@@ -157,6 +212,10 @@ pub const Constellation = struct {
                         };
 
                         try stars.put(star_name, star_coord);
+
+                        const star_name_copy = try allocator.alloc(u8, star_name.len);
+                        @memcpy(star_name_copy, star_name);
+                        try star_name_list.append(star_name_copy);
                     },
                     .asterism => {
                         var parts = std.mem.splitScalar(u8, line, ',');
@@ -195,6 +254,8 @@ pub const Constellation = struct {
 
         constellation.boundaries = try boundary_list.toOwnedSlice();
         constellation.asterism = try asterism_list.toOwnedSlice();
+        constellation.star_names = try star_name_list.toOwnedSlice();
+        constellation.area = constellation.boundaryArea();
 
         return constellation;
     }
@@ -509,8 +570,18 @@ fn writeConstellationMetadata(allocator: Allocator, constellations: []Constellat
     for (constellations) |constellation| {
         var c_map = std.json.ObjectMap.init(allocator);
         try c_map.putNoClobber("name", std.json.Value{ .string = constellation.name });
+        try c_map.putNoClobber("abbreviation", std.json.Value{ .string = constellation.abbreviation });
         try c_map.putNoClobber("epithet", std.json.Value{ .string = constellation.epithet });
 
+        var stars_json = std.ArrayList(std.json.Value).init(allocator);
+        for (constellation.star_names) |star_name| {
+            try stars_json.append(std.json.Value{ .string = star_name });
+        }
+        try c_map.putNoClobber("stars", std.json.Value{ .array = stars_json });
+        // Round the area to a tenth of a square degree, since the boundaries aren't stored precisely enough for more
+        try c_map.putNoClobber("area", std.json.Value{ .float = @as(f64, @round(constellation.area * 10)) / 10 });
+        try c_map.putNoClobber("is_zodiac", std.json.Value{ .bool = constellation.is_zodiac });
+
         const val = std.json.Value{ .object = c_map };
         try metadata_json.append(val);
     }
@@ -10,10 +10,13 @@ const http = tortie.http;
 var static_files = [_]StaticFile{
     StaticFile.init("web/index.html", .{ .path = "/" }),
     StaticFile.init("zig-out/const_meta.json", .{ .path = "/constellations/meta", .content_type = "application/json" }),
+    StaticFile.init("data/gazetteer/cities.json", .{ .path = "/gazetteer", .content_type = "application/json", .compress = true }),
     StaticFile.init("web/styles/main.css", .{ .relative_to = "web" }),
     StaticFile.init("web/assets/favicon.ico", .{ .relative_to = "web" }),
     StaticFile.init("dist/bundle.js", .{ .relative_to = "dist", .compress = true }),
     StaticFile.init("dist/bundle.js.map", .{ .relative_to = "dist", .compress = true }),
+    StaticFile.init("dist/render-worker.js", .{ .relative_to = "dist", .compress = true }),
+    StaticFile.init("dist/render-worker.js.map", .{ .relative_to = "dist", .compress = true }),
     StaticFile.init("dist/wasm/night-math.wasm", .{ .relative_to = "dist/wasm", .compress = true }),
 };
 
@@ -0,0 +1,183 @@
+import { ViewState, viewStateFromQuery, viewStateToQuery } from './view-state';
+
+type Fn<T> = (_: T) => void;
+
+/**
+ * A named view that the user saved so that they can come back to it later.
+ */
+export type Bookmark = {
+    id: string;
+    name: string;
+    /**
+     * The view, written as the same query string that's used in the page URL. Read it with `viewStateFromQuery`, so that
+     * bookmarks are validated exactly like shared links.
+     */
+    view: string;
+};
+
+type BookmarkFile = {
+    version: number;
+    bookmarks: Bookmark[];
+};
+
+const bookmark_file_version = 1;
+const max_name_length = 100;
+
+const createBookmarkId = (): string => `${Date.now().toString(36)}-${Math.floor(Math.random() * 1e9).toString(36)}`;
+
+/**
+ * Read a bookmark from storage or an imported file.
+ * @returns The bookmark, or `null` if the entry isn't a bookmark or doesn't have a location.
+ */
+const readBookmark = (entry: unknown): Bookmark | null => {
+    if (entry == null || typeof entry !== 'object') {
+        return null;
+    }
+    const { id, name, view } = entry as Partial<Bookmark>;
+    if (typeof name !== 'string' || name.trim() === '' || typeof view !== 'string') {
+        return null;
+    }
+
+    const view_state = viewStateFromQuery(view);
+    if (view_state.latitude == null || view_state.longitude == null || view_state.date == null) {
+        return null;
+    }
+    return {
+        id: typeof id === 'string' && id.length > 0 ? id : createBookmarkId(),
+        name: name.trim().slice(0, max_name_length),
+        view,
+    };
+};
+
+/**
+ * Read the bookmarks out of a bookmark file. A plain array of bookmarks is accepted as well.
+ * @throws If the text isn't JSON, or doesn't contain a list of bookmarks.
+ */
+export const parseBookmarks = (text: string): Bookmark[] => {
+    const parsed: unknown = JSON.parse(text);
+    const entries = Array.isArray(parsed) ? parsed : (parsed as Partial<BookmarkFile> | null)?.bookmarks;
+    if (!Array.isArray(entries)) {
+        throw new Error('The file does not contain a list of bookmarks');
+    }
+
+    const bookmarks: Bookmark[] = [];
+    for (const entry of entries) {
+        const bookmark = readBookmark(entry);
+        if (bookmark != null) {
+            bookmarks.push(bookmark);
+        }
+    }
+    return bookmarks;
+};
+
+/**
+ * Write bookmarks as a bookmark file, which can be read back with `parseBookmarks`.
+ */
+export const serializeBookmarks = (bookmarks: Bookmark[]): string => {
+    const file: BookmarkFile = { version: bookmark_file_version, bookmarks };
+    return JSON.stringify(file, null, 2);
+};
+
+/**
+ * The user's bookmarks, saved in `localStorage` so that they're still there the next time the page is opened. Storage can
+ * be unavailable (e.g. when cookies are blocked), in which case bookmarks still work but only last until the page is closed.
+ */
+export class BookmarkStore {
+    private bookmarks: Bookmark[];
+    private change_handlers: Fn<Bookmark[]>[] = [];
+
+    constructor(private storage_key = 'bookmarks') {
+        this.bookmarks = this.load();
+    }
+
+    /**
+     * Get every bookmark, in the order that they were saved.
+     */
+    list(): Bookmark[] {
+        return this.bookmarks.slice();
+    }
+
+    get(id: string): Bookmark | null {
+        return this.bookmarks.find(bookmark => bookmark.id === id) ?? null;
+    }
+
+    /**
+     * Listen for bookmarks being added, renamed or deleted.
+     * @param handler The updated list of bookmarks will be passed to this function.
+     */
+    onChange(handler: Fn<Bookmark[]>): void {
+        this.change_handlers.push(handler);
+    }
+
+    add(name: string, view: ViewState): Bookmark {
+        const bookmark: Bookmark = { id: createBookmarkId(), name: name.trim().slice(0, max_name_length), view: viewStateToQuery(view) };
+        this.bookmarks.push(bookmark);
+        this.save();
+        return bookmark;
+    }
+
+    rename(id: string, name: string): void {
+        const bookmark = this.get(id);
+        const trimmed_name = name.trim();
+        if (bookmark == null || trimmed_name === '') {
+            return;
+        }
+        bookmark.name = trimmed_name.slice(0, max_name_length);
+        this.save();
+    }
+
+    remove(id: string): void {
+        this.bookmarks = this.bookmarks.filter(bookmark => bookmark.id !== id);
+        this.save();
+    }
+
+    exportJson(): string {
+        return serializeBookmarks(this.bookmarks);
+    }
+
+    /**
+     * Add the bookmarks from a bookmark file to the existing ones. Bookmarks that are already saved, with the same name
+     * and view, are skipped so that importing the same file twice doesn't duplicate everything.
+     * @returns The number of bookmarks that were added.
+     * @throws If the file can't be read as a list of bookmarks.
+     */
+    importJson(text: string): number {
+        const existing = this.bookmarks.map(bookmark => `${bookmark.name}\n${bookmark.view}`);
+        let added = 0;
+        for (const bookmark of parseBookmarks(text)) {
+            const key = `${bookmark.name}\n${bookmark.view}`;
+            if (existing.indexOf(key) >= 0) {
+                continue;
+            }
+            // Imported ids could clash with ones that are already saved
+            this.bookmarks.push({ ...bookmark, id: createBookmarkId() });
+            existing.push(key);
+            added += 1;
+        }
+        if (added > 0) {
+            this.save();
+        }
+        return added;
+    }
+
+    private load(): Bookmark[] {
+        try {
+            const stored = window.localStorage.getItem(this.storage_key);
+            return stored == null ? [] : parseBookmarks(stored);
+        } catch (error) {
+            console.error('Could not load bookmarks: ', error);
+            return [];
+        }
+    }
+
+    private save(): void {
+        try {
+            window.localStorage.setItem(this.storage_key, this.exportJson());
+        } catch (error) {
+            console.error('Could not save bookmarks: ', error);
+        }
+        for (const handler of this.change_handlers) {
+            handler(this.list());
+        }
+    }
+}
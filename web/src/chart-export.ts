@@ -0,0 +1,202 @@
+import { Constellation } from './index';
+import { ChartGeometry } from './render-protocol';
+import { GeometryLayer, line_vertex_stride, sprite_stride } from './wasm/wasm-interface';
+
+/**
+ * The ways that the current view can be exported.
+ */
+export type ExportOptions =
+    /** A screenshot of the sky, redrawn at `size` x `size` pixels. */
+    | { format: 'png'; size: number }
+    /** A vector star chart, downloaded as an SVG file. */
+    | { format: 'svg' }
+    /** The same star chart as the SVG, sent to the browser's print dialog (which can also save it as a PDF). */
+    | { format: 'print' };
+
+/**
+ * The text in the footer of a chart.
+ */
+export type ChartFooter = {
+    date_time: string;
+    location: string;
+};
+
+/**
+ * How the lines of each layer are drawn on a chart. Charts are meant to be printed, so everything is drawn dark on light
+ * instead of using the colors from the canvas.
+ */
+const line_styles: { [layer: number]: string } = {
+    [GeometryLayer.EquatorialGrid]: 'stroke="#d9a27a" stroke-width="0.6"',
+    [GeometryLayer.Ecliptic]: 'stroke="#c9a227" stroke-width="0.9" stroke-dasharray="6 3"',
+    [GeometryLayer.HorizonGrid]: 'stroke="#8fb3d1" stroke-width="0.6"',
+    [GeometryLayer.ConstellationBoundaries]: 'stroke="#9e9e9e" stroke-width="0.6" stroke-dasharray="3 2"',
+    [GeometryLayer.Asterisms]: 'stroke="#404040" stroke-width="1.1"',
+    [GeometryLayer.HighlightedConstellation]: 'stroke="#d0502a" stroke-width="1.6"',
+};
+
+/** Stars are drawn over the lines, so their outlines are left white to separate them from any lines that they sit on. */
+const star_style = 'fill="#111111" stroke="#ffffff" stroke-width="0.4"';
+
+/**
+ * The radius of a star on a chart drawn at the default scale. Every magnitude brighter makes a star a little bigger, and
+ * even the faintest stars get a visible dot.
+ */
+const getStarRadius = (magnitude: number): number => Math.max(0.5, 0.45 * (6.5 - magnitude));
+
+const escapeXml = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number): string => value.toFixed(1);
+
+/**
+ * Convert a color recorded by wasm (RGBA bytes, read as a little-endian u32) into a CSS color.
+ */
+const colorFromU32 = (color: number): string => {
+    const r = color & 0xff;
+    const g = (color >>> 8) & 0xff;
+    const b = (color >>> 16) & 0xff;
+    return `rgb(${r}, ${g}, ${b})`;
+};
+
+/**
+ * Build a printable SVG star chart from the geometry of a frame. Stars are drawn as circles sized by their magnitude, and
+ * constellation lines, boundaries and grids are drawn as paths, so the chart stays sharp at any size. Below the sky
+ * there's a footer with the date, time and location of the view.
+ * @param constellations The constellations, in the same order that their label positions were exported in.
+ */
+export const buildStarChart = (geometry: ChartGeometry, constellations: Constellation[], footer: ChartFooter): string => {
+    const { width, height, background_radius } = geometry.settings;
+    // Keep the stars and text the same size relative to the sky, no matter how big the canvas was
+    const scale = background_radius / 400;
+    const font_size = Math.max(8, 11 * scale);
+    const footer_height = font_size * 5;
+    const center_x = width / 2;
+    const center_y = height / 2;
+
+    const elements: string[] = [];
+
+    const line_paths: { [layer: number]: string[] } = {};
+    const line_view = new DataView(geometry.line_vertices.buffer, geometry.line_vertices.byteOffset, geometry.line_vertices.byteLength);
+    for (let index = 0; index + 1 < geometry.line_vertex_count; index += 2) {
+        const a = index * line_vertex_stride;
+        const b = a + line_vertex_stride;
+        const layer = line_view.getUint32(a + 12, true);
+        if (line_styles[layer] == null) {
+            continue;
+        }
+        const path = line_paths[layer] ?? (line_paths[layer] = []);
+        path.push(
+            `M${round(line_view.getFloat32(a, true))} ${round(line_view.getFloat32(a + 4, true))}` +
+                `L${round(line_view.getFloat32(b, true))} ${round(line_view.getFloat32(b + 4, true))}`
+        );
+    }
+    for (const layer of Object.keys(line_paths)) {
+        elements.push(`<path d="${line_paths[Number(layer)].join('')}" fill="none" ${line_styles[Number(layer)]} />`);
+    }
+
+    const sprite_view = new DataView(geometry.sprites.buffer, geometry.sprites.byteOffset, geometry.sprites.byteLength);
+    for (let index = 0; index < geometry.sprite_count; index += 1) {
+        const offset = index * sprite_stride;
+        const x = round(sprite_view.getFloat32(offset, true));
+        const y = round(sprite_view.getFloat32(offset + 4, true));
+        const layer = sprite_view.getUint32(offset + 16, true);
+        if (layer === GeometryLayer.Stars) {
+            const radius = getStarRadius(sprite_view.getFloat32(offset + 20, true)) * scale;
+            elements.push(`<circle cx="${x}" cy="${y}" r="${radius.toFixed(2)}" ${star_style} />`);
+        } else {
+            const radius = sprite_view.getFloat32(offset + 8, true) / 2;
+            const color = colorFromU32(sprite_view.getUint32(offset + 12, true));
+            elements.push(`<circle cx="${x}" cy="${y}" r="${radius.toFixed(2)}" fill="${color}" />`);
+        }
+    }
+
+    const isOnChart = (x: number, y: number): boolean => Math.hypot(x - center_x, y - center_y) < background_radius - font_size;
+
+    geometry.constellation_points.forEach((point, index) => {
+        if (point == null || constellations[index] == null || !isOnChart(point.x, point.y)) {
+            return;
+        }
+        elements.push(
+            `<text x="${round(point.x)}" y="${round(point.y)}" font-size="${round(font_size)}" fill="#6b6b6b" ` +
+                `letter-spacing="0.1em">${escapeXml(constellations[index].name.toUpperCase())}</text>`
+        );
+    });
+    for (const label of geometry.labels) {
+        if (isOnChart(label.x, label.y)) {
+            elements.push(
+                `<text x="${round(label.x)}" y="${round(label.y)}" font-size="${round(font_size)}" font-weight="bold" ` +
+                    `fill="#404040">${escapeXml(label.text)}</text>`
+            );
+        }
+    }
+
+    const footer_x = round(center_x);
+    const footer_y = height + font_size * 2;
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${round(height + footer_height)}" ` +
+            `viewBox="0 0 ${width} ${round(height + footer_height)}" font-family="sans-serif" text-anchor="middle" ` +
+            'dominant-baseline="middle">',
+        `<rect width="${width}" height="${round(height + footer_height)}" fill="#ffffff" />`,
+        '<defs><clipPath id="sky">',
+        `<circle cx="${round(center_x)}" cy="${round(center_y)}" r="${round(background_radius)}" />`,
+        '</clipPath></defs>',
+        `<g clip-path="url(#sky)">${elements.join('')}</g>`,
+        `<circle cx="${round(center_x)}" cy="${round(center_y)}" r="${round(background_radius)}" fill="none" stroke="#111111" />`,
+        `<text x="${footer_x}" y="${round(footer_y)}" font-size="${round(font_size * 1.3)}" fill="#111111">` +
+            `${escapeXml(footer.date_time)}</text>`,
+        `<text x="${footer_x}" y="${round(footer_y + font_size * 1.8)}" font-size="${round(font_size)}" fill="#404040">` +
+            `${escapeXml(footer.location)}</text>`,
+        '</svg>',
+    ].join('\n');
+};
+
+/**
+ * Format a latitude and longitude for a chart footer, e.g. `40.7128° N, 74.0060° W`.
+ * @param latitude The latitude in radians.
+ * @param longitude The longitude in radians, in either [-π, π] or [0, 2π].
+ */
+export const formatLocation = (latitude: number, longitude: number): string => {
+    const normalized_longitude = longitude > Math.PI ? longitude - 2 * Math.PI : longitude;
+    const latitude_degrees = (latitude * 180) / Math.PI;
+    const longitude_degrees = (normalized_longitude * 180) / Math.PI;
+    const latitude_text = `${Math.abs(latitude_degrees).toFixed(4)}° ${latitude_degrees < 0 ? 'S' : 'N'}`;
+    const longitude_text = `${Math.abs(longitude_degrees).toFixed(4)}° ${longitude_degrees < 0 ? 'W' : 'E'}`;
+    return `${latitude_text}, ${longitude_text}`;
+};
+
+/**
+ * Save a blob to the user's downloads.
+ */
+export const downloadBlob = (blob: Blob, file_name: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file_name;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Give the browser a chance to start the download before the URL goes away
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Open the browser's print dialog with just the chart on the page. The chart is put into a hidden frame so that the rest
+ * of the page doesn't get printed.
+ */
+export const printChart = (svg: string): void => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = 'none';
+    frame.srcdoc =
+        '<!DOCTYPE html><html><head><title>One Night on Earth</title><style>' +
+        '@page { margin: 1cm; } html, body { margin: 0; } svg { display: block; width: 100%; height: auto; max-height: 100vh; }' +
+        `</style></head><body>${svg}</body></html>`;
+    frame.addEventListener('load', () => {
+        frame.contentWindow?.focus();
+        frame.contentWindow?.print();
+        // Printing blocks in most browsers, but not all of them, so wait a while before cleaning up
+        window.setTimeout(() => frame.remove(), 60000);
+    });
+    document.body.appendChild(frame);
+};
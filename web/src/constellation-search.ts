@@ -0,0 +1,128 @@
+import { Constellation } from './index';
+import { SearchBox } from './search-box';
+
+type Fn<T> = (_: T) => void;
+
+export type ConstellationMatch = {
+    index: number;
+    score: number;
+};
+
+const isWordStart = (text: string, index: number): boolean => index === 0 || /[\s\-'(]/.test(text.charAt(index - 1));
+
+/**
+ * Score how well a query fuzzily matches some text. Every character of the query has to appear in the text in the same
+ * order, but there can be gaps between them. Matches score higher when the characters are next to each other, when
+ * they start words, and when the whole text starts with the query.
+ * @returns The score, or `null` if the text doesn't match.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+    const lower_query = query.toLowerCase();
+    const lower_text = text.toLowerCase();
+    if (lower_query.length === 0) {
+        return 0;
+    }
+
+    let score = 0;
+    let text_index = 0;
+    let previous_match = -2;
+    for (const char of lower_query) {
+        const match_index = lower_text.indexOf(char, text_index);
+        if (match_index < 0) {
+            return null;
+        }
+
+        score += 1;
+        if (match_index === previous_match + 1) {
+            score += 2;
+        }
+        if (isWordStart(lower_text, match_index)) {
+            score += 3;
+        }
+        previous_match = match_index;
+        text_index = match_index + 1;
+    }
+
+    if (lower_text === lower_query) {
+        score += 20;
+    } else if (lower_text.startsWith(lower_query)) {
+        score += 10;
+    }
+    // Among otherwise equal matches, prefer the shorter text, since more of it was matched
+    return score - lower_text.length * 0.01;
+};
+
+/**
+ * Find the constellations that match a query by name, IAU abbreviation or epithet, with the best matches first. An empty
+ * query matches every constellation, in their original order.
+ */
+export const searchConstellations = (query: string, constellations: Constellation[]): ConstellationMatch[] => {
+    const trimmed_query = query.trim();
+    const matches: ConstellationMatch[] = [];
+
+    constellations.forEach((constellation, index) => {
+        const scores = [
+            fuzzyScore(trimmed_query, constellation.name),
+            fuzzyScore(trimmed_query, constellation.abbreviation),
+            // Epithets are long and share a lot of words ("The ..."), so they count for a little less
+            constellation.epithet ? (fuzzyScore(trimmed_query, constellation.epithet) ?? -Infinity) * 0.8 : null,
+        ].filter((score): score is number => score != null && score > -Infinity);
+
+        if (scores.length > 0) {
+            matches.push({ index, score: Math.max(...scores) });
+        }
+    });
+
+    if (trimmed_query.length === 0) {
+        return matches;
+    }
+    return matches.sort((a, b) => b.score - a.score || a.index - b.index);
+};
+
+/**
+ * A text field that searches the constellations as the user types, with the results in a list underneath it.
+ */
+export class ConstellationSearch {
+    private search_box: SearchBox<ConstellationMatch>;
+    private constellations: Constellation[] = [];
+    /** The constellation shown in the text field when the user isn't searching. */
+    private selected_index: number | null = null;
+
+    constructor(input: HTMLInputElement, list: HTMLUListElement) {
+        this.search_box = new SearchBox(
+            input,
+            list,
+            query => searchConstellations(query, this.constellations),
+            match => {
+                const constellation = this.constellations[match.index];
+                return { name: constellation.name, details: `${constellation.abbreviation} · ${constellation.epithet}` };
+            }
+        );
+    }
+
+    setConstellations(constellations: Constellation[]): void {
+        this.constellations = constellations;
+        this.search_box.refresh();
+        this.value = this.selected_index;
+    }
+
+    /**
+     * Listen for the user picking a constellation from the results.
+     * @param handler The index of the picked constellation will be passed to this function.
+     */
+    onSelect(handler: Fn<number>): void {
+        this.search_box.onSelect(match => {
+            this.selected_index = match.index;
+            handler(match.index);
+        });
+    }
+
+    /**
+     * Show a constellation in the text field without searching for it, or clear the field with `null`.
+     */
+    set value(index: number | null) {
+        this.selected_index = index;
+        const constellation = index == null ? null : this.constellations[index];
+        this.search_box.text = constellation?.name ?? '';
+    }
+}
@@ -1,7 +1,29 @@
+import { Bookmark } from './bookmarks';
+import { FrameStats } from './render-scheduler';
+import { GestureRecognizer } from './gesture-recognizer';
+import { ExportOptions, formatLocation } from './chart-export';
+import { ConstellationSearch } from './constellation-search';
+import { getUtcOffset, PlaceSearch } from './place-search';
 import { Renderer } from './renderer';
-import { TouchInterface } from './touch-interface';
 import { Point, Coord } from './wasm/wasm_module';
+import { ConstellationVisibility, HorizontalCoord, SkyCoord, StarInfo } from './wasm/wasm-interface';
 import { Constellation } from './index';
+import {
+    compassPoint,
+    formatBayerLetters,
+    formatLimitingMagnitude,
+    fixedPointToFloat,
+    formatDeclination,
+    formatDegrees,
+    formatRightAscension,
+    magnitudeFromBrightness,
+    spectral_types,
+} from './sky-format';
+import { sidereal_day_millis, Timelapse, TimelapseRate, timelapse_rates } from './timelapse';
+import { RecordingFormat, RecordingOptions, supportsVideoRecording } from './timelapse-recorder';
+import { getSkyColor, getTwilightPhase, twilight_phase_labels } from './twilight';
+import { getViewTimeZone, ViewState, viewStateFromQuery } from './view-state';
+import { Preferences } from './preferences';
 
 interface DragState {
     is_dragging: boolean;
@@ -9,11 +31,124 @@ interface DragState {
     y: number;
 }
 
-interface PinchState {
-    previous_distance: number;
-    is_zooming: boolean;
+/**
+ * How far the pointer moved in one drag event, and when.
+ */
+interface DragSample {
+    time: number;
+    x: number;
+    y: number;
+}
+
+/**
+ * Where the point under the cursor is in the sky, both relative to the observer and on the celestial sphere.
+ */
+export interface PointerPosition {
+    horizontal: HorizontalCoord;
+    sky_coord: SkyCoord;
 }
 
+/** Only the drag events in this window before a drag is released count towards the speed of a fling. */
+const fling_sample_ms = 100;
+/** If the pointer hasn't moved for this long when a drag is released, the sky doesn't keep moving. */
+const fling_release_ms = 50;
+/** How quickly the sky slows down after a fling. The speed drops by about two thirds in this time. */
+const momentum_time_constant_ms = 325;
+/** The sky stops moving after a fling once it's slower than this, in drag steps per millisecond. */
+const min_momentum_velocity = 0.002;
+/** How quickly animated zooms approach their target, in the same way as `momentum_time_constant_ms`. */
+const zoom_time_constant_ms = 80;
+const double_click_zoom_scale = 2;
+const min_frame_ms = 16;
+/** Animations don't move further than one frame of this length at a time, so they don't jump after a long pause. */
+const max_frame_ms = 50;
+
+/**
+ * What to do when the user uses the bookmark controls. Bookmarks are identified by their `id`.
+ */
+export interface BookmarkHandlers {
+    /** Save the current view with the given name. */
+    save: (name: string) => void;
+    jump: (id: string) => void;
+    rename: (id: string, name: string) => void;
+    remove: (id: string) => void;
+    /** Add the bookmarks from a file that the user picked. */
+    importFile: (file: File) => void;
+    exportAll: () => void;
+}
+
+/**
+ * UTC offsets (in minutes) that are in use around the world, listed in the timezone selector.
+ */
+const common_utc_offsets = [
+    -720, -660, -600, -570, -540, -480, -420, -360, -300, -240, -210, -180, -120, -60, 0, 60, 120, 180, 210, 240, 270, 300, 330, 345, 360,
+    390, 420, 480, 525, 540, 570, 600, 630, 660, 720, 765, 780, 840,
+];
+
+const padTime = (value: number): string => (value < 10 ? `0${value}` : value.toString());
+
+const formatUtcOffset = (offset_minutes: number): string => {
+    const abs_offset = Math.abs(offset_minutes);
+    const sign = offset_minutes < 0 ? '-' : '+';
+    return `UTC${sign}${padTime(Math.floor(abs_offset / 60))}:${padTime(abs_offset % 60)}`;
+};
+
+const createUtcOffsetOption = (offset_minutes: number): HTMLOptionElement => {
+    const option = document.createElement('option');
+    option.value = offset_minutes.toString();
+    option.innerText = formatUtcOffset(offset_minutes);
+    return option;
+};
+
+/**
+ * Build a list of labelled values, as shown in the star tooltip and the constellation details.
+ */
+const createDetailList = (rows: [string, string][]): HTMLDListElement => {
+    const details = document.createElement('dl');
+    for (const [label, value] of rows) {
+        const term = document.createElement('dt');
+        term.innerText = label;
+        const description = document.createElement('dd');
+        description.innerText = value;
+        details.appendChild(term);
+        details.appendChild(description);
+    }
+    return details;
+};
+
+const createBookmarkButton = (action: string, text: string, label: string): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.dataset.action = action;
+    button.innerText = text;
+    button.setAttribute('aria-label', label);
+    return button;
+};
+
+/**
+ * Whether a key press is going to a control that uses the key itself, such as a text field or a dropdown, in which case
+ * it shouldn't also trigger a page-wide shortcut.
+ */
+const isControlKeyEvent = (event: KeyboardEvent): boolean => {
+    const target = event.target as HTMLElement | null;
+    if (target == null) {
+        return false;
+    }
+    return target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'].indexOf(target.tagName) >= 0;
+};
+
+/**
+ * How far each arrow key pans the map, as if the map had been dragged that far from the center. Right and down are
+ * positive, the same as canvas coordinates.
+ */
+const arrow_key_pan: { [key: string]: { x: number; y: number } } = {
+    ArrowLeft: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 },
+    ArrowUp: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 },
+};
+const arrow_key_pan_distance = 0.05;
+
 /**
  * A wrapper class for the many different view controls and page buttons available. This class handles binding event listeners to
  * specific HTML elements, as well as abstracting over the difference between mouse & touch controls, so that the main function has
@@ -27,9 +162,42 @@ export class Controls {
     private current_latitude = 0;
     private current_longitude = 0;
 
-    private timelapse_is_on = false;
+    private timelapse: Timelapse;
+
+    /**
+     * The moment in time that's being rendered. The date and time inputs only have minute precision, so this is the
+     * source of truth and the inputs just display it.
+     */
+    private current_date = new Date();
+    /**
+     * The UTC offset (in minutes) used to display and enter dates. If `null`, the browser's local timezone is used.
+     */
+    private utc_offset_minutes: number | null = null;
+    /**
+     * The IANA timezone of the place picked in the city search, such as `Europe/Paris`. While this is set, the UTC offset
+     * follows the timezone's daylight saving time changes for whatever date is displayed. Picking an offset clears it.
+     */
+    private time_zone: string | null = null;
+
+    /** How far along the current timelapse recording is (from 0 to 1), or `null` if nothing is being recorded. */
+    private _recording_progress: number | null = null;
+
+    private constellations: Constellation[] = [];
+    private selected_constellation_index: number | null = null;
+    /** The constellation under the cursor, which is highlighted instead of the selected constellation. */
+    private hovered_constellation_index: number | null = null;
+    /** The constellation that the user has reached by pressing Tab on the map, which Enter will go to. */
+    private cycled_constellation_index: number | null = null;
+    /** The last message read out by screen readers, so that the same message isn't repeated every frame. */
+    private last_announcement: string | null = null;
+
+    /** The drag speed that the user picked, or `null` to use the default for the screen size. */
+    private user_drag_speed: number | null = null;
+    private small_screen_query: MediaQueryList;
 
-    private touch_handler: TouchInterface;
+    private gestures: GestureRecognizer;
+    private constellation_search: ConstellationSearch | null = null;
+    private place_search: PlaceSearch | null = null;
 
     private drag_state: DragState = {
         is_dragging: false,
@@ -37,10 +205,18 @@ export class Controls {
         y: 0,
     };
 
-    private pinch_state: PinchState = {
-        is_zooming: false,
-        previous_distance: 0,
-    };
+    /** The pointer movements of the current drag, used to work out how fast the sky was moving when the drag ends. */
+    private drag_samples: DragSample[] = [];
+    /** The animation frame that moves the sky after a fling, or `null` if the sky isn't moving on its own. */
+    private momentum_frame: number | null = null;
+
+    /** The zoom factor that the zoom animation is heading towards, or `null` if the zoom isn't changing. */
+    private zoom_target: number | null = null;
+    /** The point that the zoom animation is anchored on, relative to the center of the canvas. */
+    private zoom_anchor: Point = { x: 0, y: 0 };
+    private zoom_frame: number | null = null;
+    /** When the last zoom animation frame was drawn. */
+    private zoom_time = 0;
 
     constructor() {
         this.renderer = new Renderer('star-canvas');
@@ -54,76 +230,98 @@ export class Controls {
         }
 
         document.addEventListener('keyup', event => {
-            if (event.key === ' ' || event.code === 'Space') {
+            if ((event.key === ' ' || event.code === 'Space') && !isControlKeyEvent(event)) {
                 toggleSettingsVisibility();
             }
-        })
+        });
 
-        const extraContellationControlsContainer = document.getElementById('extraConstellationControls') as HTMLDivElement;
-        if (extraContellationControlsContainer) {
-            extraContellationControlsContainer.style.display =
-                this.renderer.draw_asterisms || this.renderer.draw_constellation_grid ? 'block' : 'none';
+        // The frame stats are only useful for debugging, so they're hidden behind a key that's unlikely to be pressed by accident
+        const frame_stats = document.getElementById('frameStats');
+        document.addEventListener('keyup', event => {
+            if (event.code === 'Backquote') {
+                frame_stats?.classList.toggle('hidden');
+            }
+        });
+
+        this.updateConstellationControls();
+        this.updateOverlayControls();
+        this.updateLimitingMagnitudeControls();
+
+        const utc_offset_select = document.getElementById('utcOffsetSelect') as HTMLSelectElement;
+        if (utc_offset_select) {
+            for (const offset_minutes of common_utc_offsets) {
+                utc_offset_select.appendChild(createUtcOffsetOption(offset_minutes));
+            }
         }
 
-        this.touch_handler = new TouchInterface(this.renderer.canvas);
+        this.timelapse = new Timelapse(() => this.date);
+
+        this.gestures = new GestureRecognizer(this.renderer.canvas);
 
-        const mql = window.matchMedia('only screen and (max-width: 1000px)');
-        if (mql.matches) {
-            this.renderer.drag_speed = Renderer.DefaultMobileDragSpeed;
+        const search_input = document.getElementById('constellationSearch') as HTMLInputElement;
+        const search_results = document.getElementById('constellationResults') as HTMLUListElement;
+        if (search_input && search_results) {
+            this.constellation_search = new ConstellationSearch(search_input, search_results);
         }
-        // Listen for future changes
-        mql.addEventListener('change', _ => {
-            if (mql.matches) {
-                this.renderer.drag_speed = Renderer.DefaultMobileDragSpeed;
-            } else {
-                this.renderer.drag_speed = Renderer.DefaultDragSpeed;
-            }
-        });
 
+        const place_input = document.getElementById('placeSearch') as HTMLInputElement;
+        const place_results = document.getElementById('placeResults') as HTMLUListElement;
+        if (place_input && place_results) {
+            this.place_search = new PlaceSearch(place_input, place_results);
+        }
+
+        // Small screens get a slower default drag speed. A speed that the user picked is kept no matter the screen size.
+        this.small_screen_query = window.matchMedia('only screen and (max-width: 1000px)');
+        this.updateDragSpeed();
+        // Listen for future changes
+        this.small_screen_query.addEventListener('change', _ => this.updateDragSpeed());
     }
 
     /**
-     * Listen for changes in the current date. This is just for direct updates through the date field,
-     * not timelapses.
+     * Listen for changes in the current date. This is just for direct updates through the date, time and UTC offset
+     * fields, the time slider and twisting two fingers on the map, not timelapses.
      * @param handler The new date will be passed to this function.
      */
     onDateChange(handler: (_: Date) => void): void {
         const date_input = document.getElementById('dateInput') as HTMLInputElement;
-        date_input?.addEventListener('change', () => {
-            const new_date = date_input?.valueAsDate;
+        const time_input = document.getElementById('timeInput') as HTMLInputElement;
+        const time_slider = document.getElementById('timeSlider') as HTMLInputElement;
+        const utc_offset_select = document.getElementById('utcOffsetSelect') as HTMLSelectElement;
+
+        const handleInputChange = () => {
+            const new_date = this.readDateInputs();
             if (new_date == null) {
                 return;
             }
-            handler(new_date);
-        });
-    }
+            this.date = new_date;
+            handler(this.date);
+        };
 
-    /**
-     * Listen for the user to set the 'Today' button.
-     * @param handler The original date, then the current date ('Today') will be passed to this function.
-     * @deprecated Currently the 'Today' button is not shown because the resulting render is flipped for
-     * some reason.
-     */
-    onSetToday(handler: (current: Date, target: Date) => Date): void {
-        const today_button = document.getElementById('today') as HTMLButtonElement;
-        today_button?.addEventListener('click', () => {
-            let current = this.date;
-            let target = new Date();
+        date_input?.addEventListener('change', handleInputChange);
+        time_input?.addEventListener('change', handleInputChange);
 
-            const moving_backwards = current.valueOf() > target.valueOf();
+        time_slider?.addEventListener('input', () => {
+            const minutes = parseInt(time_slider.value, 10);
+            if (isNaN(minutes) || time_input == null) {
+                return;
+            }
+            time_input.value = `${padTime(Math.floor(minutes / 60))}:${padTime(minutes % 60)}`;
+            handleInputChange();
+        });
 
-            const run = () => {
-                current = handler(current, target);
-                this.date = current;
-                if (
-                    (moving_backwards && current.valueOf() > target.valueOf()) ||
-                    (!moving_backwards && current.valueOf() < target.valueOf())
-                ) {
-                    window.requestAnimationFrame(run);
-                }
-            };
+        // Changing the offset keeps the entered wall-clock time, but moves it to the new timezone
+        utc_offset_select?.addEventListener('change', () => {
+            this.utc_offset_minutes = utc_offset_select.value === 'local' ? null : parseInt(utc_offset_select.value, 10);
+            this.time_zone = null;
+            handleInputChange();
+        });
 
-            window.requestAnimationFrame(run);
+        // Twisting the map turns the sky like the dial of a planisphere, with a full turn being one sidereal day. Looking up,
+        // the sky turns counterclockwise around the north celestial pole and clockwise around the south one.
+        this.gestures.onRotate(({ rotation }) => {
+            const direction = this.latitude >= 0 ? -1 : 1;
+            this.date = new Date(this.date.valueOf() + (direction * rotation * sidereal_day_millis) / (2 * Math.PI));
+            handler(this.date);
         });
     }
 
@@ -139,7 +337,7 @@ export class Controls {
 
             handler({ latitude: new_lat_rad, longitude: new_long_rad });
         };
-        
+
         const latitude_input = document.getElementById('latitudeInput') as HTMLInputElement;
         latitude_input?.addEventListener('change', () => {
             let new_latitude: number;
@@ -150,7 +348,7 @@ export class Controls {
             }
             updateCoord(new_latitude, this.longitude * (180 / Math.PI));
         });
-        
+
         const longitude_input = document.getElementById('longitudeInput') as HTMLInputElement;
         longitude_input?.addEventListener('change', () => {
             let new_longitude: number;
@@ -161,6 +359,15 @@ export class Controls {
             }
             updateCoord(this.latitude * (180 / Math.PI), new_longitude);
         });
+
+        this.place_search?.onSelect(place => {
+            // Show the local time of the place, as long as the browser knows its timezone
+            if (getUtcOffset(place.timezone, this.date) != null) {
+                this.time_zone = place.timezone;
+                this.date = this.current_date;
+            }
+            updateCoord(place.latitude, place.longitude);
+        });
     }
 
     /**
@@ -184,54 +391,255 @@ export class Controls {
     }
 
     /**
-     * Listen for the user to click the "Timelapse" button.
-     * @param handler This function will be called repeatedly, as long as
-     * the timelapse feature is turned on. Each time, the new date will be
-     * passed in.
+     * Listen for the export button. The resolution can only be chosen for PNG images, so it's hidden for the other formats.
+     * @param handler This function will be called with the chosen format. The export button is disabled until the promise
+     * that it returns settles, so that a slow export can't be started twice.
+     */
+    onExport(handler: (options: ExportOptions) => Promise<void>): void {
+        const format_select = document.getElementById('exportFormat') as HTMLSelectElement;
+        const size_select = document.getElementById('exportSize') as HTMLSelectElement;
+        const export_button = document.getElementById('exportButton') as HTMLButtonElement;
+        if (!format_select || !size_select || !export_button) {
+            return;
+        }
+
+        const updateSizeSelect = () => {
+            size_select.style.display = format_select.value === 'png' ? '' : 'none';
+        };
+        format_select.addEventListener('change', updateSizeSelect);
+        updateSizeSelect();
+
+        export_button.addEventListener('click', () => {
+            let options: ExportOptions;
+            switch (format_select.value) {
+                case 'svg':
+                    options = { format: 'svg' };
+                    break;
+                case 'print':
+                    options = { format: 'print' };
+                    break;
+                default:
+                    options = { format: 'png', size: parseInt(size_select.value, 10) };
+            }
+
+            export_button.disabled = true;
+            const done = () => {
+                export_button.disabled = false;
+            };
+            handler(options).then(done, error => {
+                console.error('Could not export the view: ', error);
+                done();
+            });
+        });
+    }
+
+    /**
+     * Listen for the bookmark controls. Saving uses the name typed into the name field, and renaming and deleting ask
+     * the user to confirm first.
+     */
+    onBookmarks(handlers: BookmarkHandlers): void {
+        const name_input = document.getElementById('bookmarkName') as HTMLInputElement;
+        const save_button = document.getElementById('saveBookmark') as HTMLButtonElement;
+        const bookmark_list = document.getElementById('bookmarkList') as HTMLUListElement;
+        const import_button = document.getElementById('importBookmarks') as HTMLButtonElement;
+        const export_button = document.getElementById('exportBookmarks') as HTMLButtonElement;
+        const file_input = document.getElementById('bookmarkFile') as HTMLInputElement;
+        if (!name_input || !save_button || !bookmark_list || !import_button || !export_button || !file_input) {
+            return;
+        }
+
+        const save = () => {
+            const name = name_input.value.trim() || `View ${bookmark_list.children.length + 1}`;
+            handlers.save(name);
+            name_input.value = '';
+        };
+        save_button.addEventListener('click', save);
+        name_input.addEventListener('keydown', event => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                save();
+            }
+        });
+
+        // Each bookmark's buttons say what they do in their data-action attribute
+        bookmark_list.addEventListener('click', event => {
+            const button = (event.target as HTMLElement).closest('button[data-action]') as HTMLButtonElement | null;
+            const item = button?.closest('li[data-id]') as HTMLLIElement | null;
+            const id = item?.dataset.id;
+            if (button == null || id == null) {
+                return;
+            }
+
+            const name = item?.dataset.name ?? '';
+            switch (button.dataset.action) {
+                case 'jump':
+                    handlers.jump(id);
+                    break;
+                case 'rename': {
+                    const new_name = window.prompt('Rename this view', name);
+                    if (new_name != null && new_name.trim() !== '') {
+                        handlers.rename(id, new_name);
+                    }
+                    break;
+                }
+                case 'remove':
+                    if (window.confirm(`Delete the view "${name}"?`)) {
+                        handlers.remove(id);
+                    }
+                    break;
+            }
+        });
+
+        import_button.addEventListener('click', () => file_input.click());
+        file_input.addEventListener('change', () => {
+            const file = file_input.files?.item(0);
+            if (file != null) {
+                handlers.importFile(file);
+            }
+            // Clear the input so that picking the same file again still fires a change
+            file_input.value = '';
+        });
+        export_button.addEventListener('click', () => handlers.exportAll());
+    }
+
+    /**
+     * Listen for the timelapse controls: play/pause, reverse, step, the rate selector, and the 'Now' button (which
+     * animates to the current date).
+     * @param handler This function will be called every time the timelapse produces a new date, with that date passed
+     * in. The date has already been set on the controls when this is called.
      */
-    onTimelapse(handler: (next_date: Date) => Date): void {
-        const time_travel_button = document.getElementById('timelapse');
-        time_travel_button?.addEventListener('click', event => {
+    onTimelapse(handler: (next_date: Date) => void): void {
+        const play_button = document.getElementById('timelapse') as HTMLButtonElement;
+        const reverse_button = document.getElementById('timelapseReverse') as HTMLButtonElement;
+        const step_back_button = document.getElementById('timelapseStepBack') as HTMLButtonElement;
+        const step_forward_button = document.getElementById('timelapseStepForward') as HTMLButtonElement;
+        const rate_select = document.getElementById('timelapseRate') as HTMLSelectElement;
+        const now_button = document.getElementById('now') as HTMLButtonElement;
+
+        if (rate_select) {
+            const rates = [
+                TimelapseRate.RealTime,
+                TimelapseRate.MinutePerFrame,
+                TimelapseRate.SiderealDayPerFrame,
+                TimelapseRate.YearPerFrame,
+            ];
+            for (const rate of rates) {
+                const rate_option = document.createElement('option');
+                rate_option.value = rate.toString();
+                rate_option.innerText = timelapse_rates[rate].label;
+                rate_select.appendChild(rate_option);
+            }
+            rate_select.value = this.timelapse.rate.toString();
+            rate_select.addEventListener('change', () => {
+                this.timelapse.rate = parseInt(rate_select.value, 10) as TimelapseRate;
+            });
+        }
+
+        this.timelapse.onFrame(date => {
+            this.date = date;
+            handler(date);
+        });
+
+        this.timelapse.onStateChange(timelapse => {
+            if (play_button) {
+                play_button.innerText = timelapse.is_playing ? 'Pause' : 'Timelapse';
+            }
+            if (reverse_button) {
+                reverse_button.setAttribute('aria-pressed', timelapse.reversed ? 'true' : 'false');
+                reverse_button.classList.toggle('active', timelapse.reversed);
+            }
+        });
+
+        play_button?.addEventListener('click', event => {
             event.stopImmediatePropagation();
-            time_travel_button!.innerText = this.timelapse_is_on ? 'Timelapse' : 'Stop';
-            if (this.timelapse_is_on) {
-                this.timelapse_is_on = false;
+            this.timelapse.toggle();
+        });
+        reverse_button?.addEventListener('click', () => {
+            this.timelapse.reversed = !this.timelapse.reversed;
+        });
+        step_back_button?.addEventListener('click', () => this.timelapse.step(-1));
+        step_forward_button?.addEventListener('click', () => this.timelapse.step(1));
+        document.addEventListener('keydown', event => {
+            if (isControlKeyEvent(event)) {
                 return;
             }
+            if (event.key === '[') {
+                this.timelapse.step(-1);
+            } else if (event.key === ']') {
+                this.timelapse.step(1);
+            }
+        });
+        now_button?.addEventListener('click', () => this.timelapse.seekTo(new Date()));
+    }
 
-            let date = this.date;
+    /**
+     * Listen for the record button. Recordings follow the speed and direction of the timelapse controls, so that the video
+     * plays back the same way that the live timelapse looks. The live timelapse is paused while recording.
+     * @param handler Called with the chosen recording options when the user starts a recording.
+     * @param stop_handler Called when the user presses the button again to stop the recording early.
+     */
+    onRecord(handler: (options: RecordingOptions) => void, stop_handler: () => void): void {
+        const record_button = document.getElementById('record') as HTMLButtonElement;
+        const format_select = document.getElementById('recordFormat') as HTMLSelectElement;
+        const size_select = document.getElementById('recordSize') as HTMLSelectElement;
+        const duration_select = document.getElementById('recordDuration') as HTMLSelectElement;
+        const frame_rate_select = document.getElementById('recordFrameRate') as HTMLSelectElement;
+        if (!record_button || !format_select || !size_select || !duration_select || !frame_rate_select) {
+            return;
+        }
 
-            const run = () => {
-                date = handler(date);
-                this.date = date;
-                if (this.timelapse_is_on) {
-                    window.requestAnimationFrame(run);
-                }
-            };
+        if (!supportsVideoRecording()) {
+            const video_option = format_select.querySelector(`option[value="${RecordingFormat.WebM}"]`) as HTMLOptionElement;
+            if (video_option) {
+                video_option.disabled = true;
+            }
+            format_select.value = RecordingFormat.PngSequence;
+        }
+
+        record_button.addEventListener('click', () => {
+            if (this._recording_progress != null) {
+                stop_handler();
+                return;
+            }
 
-            window.requestAnimationFrame(run);
-            this.timelapse_is_on = true;
+            this.timelapse.pause();
+            const frame_rate = parseInt(frame_rate_select.value, 10);
+            const direction = this.timelapse.reversed ? -1 : 1;
+            handler({
+                format: format_select.value === RecordingFormat.WebM ? RecordingFormat.WebM : RecordingFormat.PngSequence,
+                size: parseInt(size_select.value, 10),
+                duration_seconds: parseInt(duration_select.value, 10),
+                frame_rate,
+                frame_step_millis: (direction * timelapse_rates[this.timelapse.rate].millis_per_second) / frame_rate,
+            });
         });
     }
 
     /**
-     * Listens for the user to click-and-drag on the star map. Handles mouse movement and touch-drags.
+     * Listens for the user to click-and-drag on the star map. Handles mouse, pen and touch drags. When a drag is released
+     * while the pointer is still moving, the sky keeps moving in the same direction and gradually slows down.
      * @param handler This function will be called each time the user's mouse moves. The first
-     * argument is the original mouse location, and the second argument is the new mouse location.
+     * argument is the original mouse location, and the second argument is the new mouse location. The third argument is how
+     * much of a full drag step to move, which is less than 1 while the sky is slowing down after a fling.
      */
-    onMapDrag(handler: (current_state: DragState, new_state: DragState) => void): void {
+    onMapDrag(handler: (current_state: DragState, new_state: DragState, scale: number) => void): void {
         /**
          * Initializes the drag state.
          */
         const handleDragStart = (x: number, y: number) => {
+            this.stopMomentum();
             const center_x = this.renderer.width / 2;
             const center_y = this.renderer.height / 2;
-            this.drag_state.x = (x - center_x) / this.renderer.canvas.width;
-            this.drag_state.y = (y - center_y) / this.renderer.canvas.height;
+            this.drag_state.x = (x - center_x) / this.renderer.width;
+            this.drag_state.y = (y - center_y) / this.renderer.height;
 
             this.renderer.canvas.classList.add('moving');
 
             this.drag_state.is_dragging = true;
+            this.drag_samples = [];
+
+            // Any star info that's showing will be out of date once the sky moves
+            this.showStarInfo(null);
         };
 
         /**
@@ -247,110 +655,375 @@ export class Controls {
                     y: ((y - center_y) / this.renderer.height) * drag_scale,
                 };
 
-                handler(this.drag_state, new_drag_state);
+                handler(this.drag_state, new_drag_state, 1);
 
+                this.drag_samples.push({
+                    time: performance.now(),
+                    x: new_drag_state.x - this.drag_state.x,
+                    y: new_drag_state.y - this.drag_state.y,
+                });
                 this.drag_state = new_drag_state;
             }
         };
 
-        const handleDragEnd = () => {
+        /**
+         * Stop dragging. The sky only keeps moving if the drag ended with the pointer being lifted, and not when it turned
+         * into a pinch.
+         */
+        const handleDragEnd = (fling: boolean) => {
             this.renderer.canvas.classList.remove('moving');
+            if (this.drag_state.is_dragging && fling) {
+                this.startMomentum(handler);
+            }
             this.drag_state.is_dragging = false;
         };
 
-        this.renderer.addEventListener('mousedown', event => handleDragStart(event.offsetX, event.offsetY));
+        // Touching the map catches it straight away, without waiting to see if the touch turns into a drag
+        this.gestures.onPointerDown(() => this.stopMomentum());
 
-        this.touch_handler.onTouchHold(touch => {
-            const canvas_rect = this.renderer.canvas.getBoundingClientRect();
-            const offset_x = touch.client_x - canvas_rect.x;
-            const offset_y = touch.client_y - canvas_rect.y;
-            handleDragStart(offset_x, offset_y);
+        this.gestures.onPanStart(start => {
+            const point = this.renderer.pointFromClient(start.x, start.y);
+            handleDragStart(point.x, point.y);
         });
 
-        this.touch_handler.onTouchDrag(([_, new_touch]) => {
-            const canvas_rect = this.renderer.canvas.getBoundingClientRect();
-            const offset_x = new_touch.client_x - canvas_rect.x;
-            const offset_y = new_touch.client_y - canvas_rect.y;
-            handleDragMove(offset_x, offset_y);
+        this.gestures.onPan(({ current }) => {
+            const point = this.renderer.pointFromClient(current.x, current.y);
+            handleDragMove(point.x, point.y);
         });
 
-        this.renderer.addEventListener('mousemove', event => handleDragMove(event.offsetX, event.offsetY));
+        this.gestures.onPanEnd(({ completed }) => handleDragEnd(completed));
 
-        this.renderer.addEventListener('mouseup', () => handleDragEnd());
-        this.renderer.addEventListener('mouseleave', () => handleDragEnd());
-        this.renderer.addEventListener('touchend', () => handleDragEnd());
+        // The arrow keys pan the view in the direction that they point, which moves the sky the opposite way
+        this.renderer.addEventListener('keydown', event => {
+            const pan = arrow_key_pan[event.key];
+            if (pan == null) {
+                return;
+            }
+            event.preventDefault();
+            this.stopMomentum();
+            const start: DragState = { is_dragging: true, x: 0, y: 0 };
+            handler(start, { is_dragging: true, x: -pan.x * arrow_key_pan_distance, y: -pan.y * arrow_key_pan_distance }, 1);
+        });
     }
 
-    onMapZoom(handler: (zoom_factor: number) => void): void {
-        const handleZoom = (current_zoom: number, previous_zoom: number) => {
-            // Zoom out faster than zooming in, because usually when you zoom out you just want
-            // to go all the way out and it's annoying to have to do a ton of scrolling
-            const delta_amount = current_zoom >= previous_zoom ? -0.05 : 0.15;
-            let zoom_factor = this.renderer.zoom_factor - this.renderer.zoom_factor * delta_amount;
-            if (zoom_factor < 1) {
-                zoom_factor = 1;
+    /**
+     * Keep the sky moving after a drag is released, slowing down until it stops. Each drag event moves the sky by the same
+     * amount no matter how far the pointer moved, so the speed of a fling is how often the drag events were coming in.
+     */
+    private startMomentum(handler: (current_state: DragState, new_state: DragState, scale: number) => void): void {
+        const now = performance.now();
+        const samples = this.drag_samples.filter(sample => now - sample.time <= fling_sample_ms);
+        this.drag_samples = [];
+
+        // A drag that stopped moving before it was released doesn't fling
+        if (samples.length < 2 || now - samples[samples.length - 1].time > fling_release_ms) {
+            return;
+        }
+        const direction = samples.reduce((sum, sample) => ({ x: sum.x + sample.x, y: sum.y + sample.y }), { x: 0, y: 0 });
+        if (direction.x === 0 && direction.y === 0) {
+            return;
+        }
+
+        // In drag steps per millisecond
+        let velocity = samples.length / Math.max(now - samples[0].time, min_frame_ms);
+        let previous_time = now;
+        const runMomentum = (time: number) => {
+            // Don't jump ahead after the page was in the background
+            const elapsed = Math.min(Math.max(time - previous_time, 0), max_frame_ms);
+            previous_time = time;
+            velocity *= Math.exp(-elapsed / momentum_time_constant_ms);
+            if (velocity < min_momentum_velocity) {
+                this.momentum_frame = null;
+                return;
             }
-            handler(zoom_factor);
+
+            handler({ is_dragging: true, x: 0, y: 0 }, { is_dragging: true, x: direction.x, y: direction.y }, velocity * elapsed);
+            this.momentum_frame = window.requestAnimationFrame(runMomentum);
         };
+        this.momentum_frame = window.requestAnimationFrame(runMomentum);
+    }
 
-        this.touch_handler.onPinch((change_a, change_b) => {
-            const new_a = change_a[1];
-            const new_b = change_b[1];
-            const current_touch_distance = Math.sqrt(
-                Math.pow(new_b.client_x - new_a.client_x, 2) + Math.pow(new_b.client_y - new_a.client_y, 2)
-            );
-            handleZoom(current_touch_distance, this.pinch_state.previous_distance);
-            this.pinch_state.previous_distance = current_touch_distance;
-        });
+    private stopMomentum(): void {
+        if (this.momentum_frame != null) {
+            window.cancelAnimationFrame(this.momentum_frame);
+            this.momentum_frame = null;
+        }
+    }
+
+    /**
+     * Listen for the user zooming in or out with the mouse wheel, a pinch, a double click or double tap, or the keyboard.
+     * Zooming is animated, so the handler is called on every frame until the zoom reaches its target.
+     * @param handler The new zoom factor will be passed to this function, along with the point that the zoom is anchored on
+     * (the cursor, the middle of a pinch, or the center of the map for the keyboard). That point should stay in the same
+     * place on the map as it zooms. Like drag states, the point is relative to the center of the canvas, as a fraction of
+     * the canvas size.
+     */
+    onMapZoom(handler: (zoom_factor: number, anchor: Point) => void): void {
+        const toAnchor = (client_x: number, client_y: number): Point => {
+            const point = this.renderer.pointFromClient(client_x, client_y);
+            return {
+                x: (point.x - this.renderer.width / 2) / this.renderer.width,
+                y: (point.y - this.renderer.height / 2) / this.renderer.height,
+            };
+        };
+        const center: Point = { x: 0, y: 0 };
+
+        const runZoom = (time: number) => {
+            if (this.zoom_target == null) {
+                this.zoom_frame = null;
+                return;
+            }
+
+            const elapsed = Math.min(Math.max(time - this.zoom_time, 0), max_frame_ms);
+            this.zoom_time = time;
+            const current_zoom = this.renderer.zoom_factor;
+            let zoom_factor = current_zoom + (this.zoom_target - current_zoom) * (1 - Math.exp(-elapsed / zoom_time_constant_ms));
+            if (Math.abs(this.zoom_target - zoom_factor) < this.zoom_target * 0.001) {
+                zoom_factor = this.zoom_target;
+                this.zoom_target = null;
+            }
+
+            handler(zoom_factor, this.zoom_anchor);
+            this.zoom_frame = window.requestAnimationFrame(runZoom);
+        };
+
+        /**
+         * Scale the zoom that's being animated towards, and start animating if the zoom isn't already moving.
+         */
+        const zoomBy = (scale: number, anchor: Point) => {
+            this.zoom_target = Math.min(Math.max((this.zoom_target ?? this.renderer.zoom_factor) * scale, 1), Renderer.MaxZoomFactor);
+            this.zoom_anchor = anchor;
+            if (this.zoom_frame == null) {
+                this.zoom_time = performance.now();
+                this.zoom_frame = window.requestAnimationFrame(runZoom);
+            }
+        };
+
+        // Zoom out faster than zooming in, because usually when you zoom out you just want
+        // to go all the way out and it's annoying to have to do a ton of scrolling
+        const zoom_in_scale = 1.05;
+        const zoom_out_scale = 0.85;
+
+        this.gestures.onPinch(({ center, scale }) => zoomBy(scale, toAnchor(center.x, center.y)));
 
         this.renderer.addEventListener('wheel', event => {
             event.preventDefault();
-            handleZoom(-event.deltaY, 0);
+            if (event.deltaY !== 0) {
+                zoomBy(event.deltaY < 0 ? zoom_in_scale : zoom_out_scale, toAnchor(event.clientX, event.clientY));
+            }
         });
-    }
 
-    onMapHover(handler: (_: Point) => void): void {
-        this.touch_handler.onSingleClick(touch => {
-            if (!this.drag_state.is_dragging) {
-                const canvas_rect = this.renderer.canvas.getBoundingClientRect();
-                const offset_x = touch.client_x - canvas_rect.x;
-                const offset_y = touch.client_y - canvas_rect.y;
-                handler({
-                    x: offset_x,
-                    y: offset_y,
-                });
+        this.gestures.onDoubleTap(point => zoomBy(double_click_zoom_scale, toAnchor(point.x, point.y)));
+
+        this.renderer.addEventListener('keydown', event => {
+            if (event.key === '+' || event.key === '=') {
+                event.preventDefault();
+                zoomBy(zoom_in_scale, center);
+            } else if (event.key === '-' || event.key === '_') {
+                event.preventDefault();
+                zoomBy(zoom_out_scale, center);
             }
         });
+    }
 
-        this.renderer.addEventListener('mousemove', event => {
-            if (!this.drag_state.is_dragging) {
-                handler({
-                    x: event.offsetX,
-                    y: event.offsetY,
-                });
+    /**
+     * Listen for the user clicking, tapping or long pressing on the star map. Clicks and taps that turn into drags are
+     * ignored.
+     * @param handler The point on the canvas that was clicked will be passed to this function.
+     */
+    onMapClick(handler: (_: Point) => void): void {
+        const click = (point: Point) => handler(this.renderer.pointFromClient(point.x, point.y));
+        this.gestures.onTap(click);
+        this.gestures.onLongPress(click);
+    }
+
+    /**
+     * Show the details of a star in a tooltip next to the star.
+     * @param star The star to show, or `null` to hide the tooltip.
+     * @param point The point on the canvas where the star was picked.
+     */
+    showStarInfo(star: StarInfo | null, point?: Point): void {
+        const star_info = document.getElementById('starInfo') as HTMLDivElement;
+        if (star_info == null) {
+            return;
+        }
+
+        if (star == null || point == null) {
+            star_info.classList.add('hidden');
+            return;
+        }
+
+        const spectral_type = spectral_types[star.spec_type];
+        const rows: [string, string][] = [
+            ['Right Ascension', formatRightAscension(fixedPointToFloat(star.right_ascension))],
+            ['Declination', formatDeclination(fixedPointToFloat(star.declination))],
+            ['Magnitude', `≈ ${magnitudeFromBrightness(star.brightness).toFixed(1)} (brightness ${star.brightness}/255)`],
+            ['Spectral Type', spectral_type ? `${spectral_type.name} (${spectral_type.color})` : 'Unknown'],
+        ];
+
+        star_info.innerText = '';
+        const title = document.createElement('strong');
+        title.innerText = `Star #${star.index}`;
+        star_info.appendChild(title);
+
+        star_info.appendChild(createDetailList(rows));
+
+        // The tooltip is positioned inside the canvas container, but the point is relative to the canvas itself
+        const container_rect = (star_info.offsetParent ?? document.body).getBoundingClientRect();
+        const canvas_rect = this.renderer.canvas.getBoundingClientRect();
+        const css_point = this.renderer.pointToCss(point);
+        star_info.style.left = `${canvas_rect.x - container_rect.x + css_point.x}px`;
+        star_info.style.top = `${canvas_rect.y - container_rect.y + css_point.y}px`;
+        star_info.classList.remove('hidden');
+    }
+
+    /**
+     * Show the details of a constellation in the constellation panel, or hide the panel with `null`.
+     * @param visibility Where the constellation is in the sky at the current date and location.
+     */
+    showConstellationDetails(constellation: Constellation | null, visibility: ConstellationVisibility | null = null): void {
+        const constellation_details = document.getElementById('constellationDetails') as HTMLDivElement;
+        if (constellation_details == null) {
+            return;
+        }
+
+        if (constellation == null) {
+            constellation_details.classList.add('hidden');
+            return;
+        }
+
+        const rows: [string, string][] = [
+            ['Abbreviation', constellation.abbreviation],
+            ['Area', `${constellation.area.toFixed(1)} square degrees`],
+            ['Zodiac', constellation.is_zodiac ? 'Yes' : 'No'],
+        ];
+        if (visibility != null) {
+            rows.push([
+                'Right Now',
+                visibility.altitude > 0 ? `Above the horizon, ${formatDegrees(visibility.altitude, 0)} up` : 'Below the horizon',
+            ]);
+            if (visibility.transit_altitude < 0) {
+                rows.push(['Transit', 'Never rises from here']);
+            } else {
+                const transit_time = this.formatTime(new Date(this.date.valueOf() + visibility.transit_minutes * 60000));
+                const never_sets = visibility.lowest_altitude > 0 ? ', never sets' : '';
+                rows.push(['Transit', `${transit_time}, ${formatDegrees(visibility.transit_altitude, 0)} up${never_sets}`]);
             }
+        }
+        rows.push(['Stars', constellation.stars.length > 0 ? formatBayerLetters(constellation.stars) : 'None listed']);
+
+        constellation_details.innerText = '';
+        const title = document.createElement('strong');
+        title.innerText = constellation.name;
+        const epithet = document.createElement('span');
+        epithet.className = 'constellation-epithet';
+        epithet.innerText = constellation.epithet;
+        constellation_details.append(title, epithet, createDetailList(rows));
+        constellation_details.classList.remove('hidden');
+    }
+
+    /**
+     * Listen for the cursor moving over the map. When the cursor leaves the map, the handler is called with `null` and
+     * the hovered constellation is cleared, so the selected constellation is highlighted again.
+     */
+    onMapHover(handler: (_: Point | null) => void): void {
+        // Touch screens can't hover, so tapping or holding a finger on the map shows what's under it instead
+        const hover = (point: Point) => handler(this.renderer.pointFromClient(point.x, point.y));
+        this.gestures.onTap(hover);
+        this.gestures.onLongPress(hover);
+
+        this.gestures.onHover(point => {
+            if (point != null) {
+                hover(point);
+                return;
+            }
+            this.pointer_position = null;
+            this.hovered_constellation = null;
+            handler(null);
+        });
+    }
+
+    /**
+     * Listen for the limiting magnitude slider being moved. The sky is updated while the slider is dragged so that the
+     * effect is easy to see.
+     */
+    onChangeLimitingMagnitude(handler: () => void): void {
+        const limiting_magnitude_input = document.getElementById('limitingMagnitude') as HTMLInputElement;
+        limiting_magnitude_input?.addEventListener('input', () => {
+            const value = parseFloat(limiting_magnitude_input.value);
+            if (isNaN(value)) return;
+
+            this.renderer.limiting_magnitude = value;
+            this.updateLimitingMagnitudeControls();
+            handler();
+        });
+    }
+
+    /**
+     * Listen for the user changing the drag speed with the drag speed slider.
+     */
+    onChangeDragSpeed(handler: () => void): void {
+        const drag_speed_input = document.getElementById('dragSpeed') as HTMLInputElement;
+        drag_speed_input?.addEventListener('input', () => {
+            const value = parseFloat(drag_speed_input.value);
+            if (isNaN(value)) return;
+
+            this.drag_speed = value;
+            handler();
         });
     }
 
+    /**
+     * Listen for the user clicking the 'Reset to Defaults' button.
+     */
+    onResetPreferences(handler: () => void): void {
+        const reset_button = document.getElementById('resetPreferences');
+        reset_button?.addEventListener('click', () => handler());
+    }
+
+    /**
+     * Listen for the sky overlays (such as the horizon grid or the ecliptic) being turned on or off.
+     */
+    onChangeOverlays(handler: () => void): void {
+        const show_horizon_grid_input = document.getElementById('showHorizonGrid') as HTMLInputElement;
+        const show_equatorial_grid_input = document.getElementById('showEquatorialGrid') as HTMLInputElement;
+        const show_ecliptic_input = document.getElementById('showEcliptic') as HTMLInputElement;
+        const show_zodiac_signs_input = document.getElementById('showZodiacSigns') as HTMLInputElement;
+        const show_solar_system_input = document.getElementById('showSolarSystem') as HTMLInputElement;
+        const simulate_twilight_input = document.getElementById('simulateTwilight') as HTMLInputElement;
+
+        const handleAllInputs = () => {
+            this.renderer.draw_horizon_grid = show_horizon_grid_input?.checked ?? false;
+            this.renderer.draw_equatorial_grid = show_equatorial_grid_input?.checked ?? false;
+            this.renderer.draw_ecliptic = show_ecliptic_input?.checked ?? false;
+            this.renderer.draw_zodiac_signs = show_zodiac_signs_input?.checked ?? false;
+            this.renderer.draw_solar_system = show_solar_system_input?.checked ?? false;
+            this.renderer.simulate_twilight = simulate_twilight_input?.checked ?? false;
+
+            this.updateOverlayControls();
+
+            handler();
+        };
+
+        show_horizon_grid_input?.addEventListener('change', () => handleAllInputs());
+        show_equatorial_grid_input?.addEventListener('change', () => handleAllInputs());
+        show_ecliptic_input?.addEventListener('change', () => handleAllInputs());
+        show_zodiac_signs_input?.addEventListener('change', () => handleAllInputs());
+        show_solar_system_input?.addEventListener('change', () => handleAllInputs());
+        simulate_twilight_input?.addEventListener('change', () => handleAllInputs());
+    }
+
     onChangeConstellationView(handler: () => void): void {
         const show_asterism_input = document.getElementById('showAsterism') as HTMLInputElement;
         const show_constellation_grid_input = document.getElementById('showGrid') as HTMLInputElement;
         const show_only_zodiac_input = document.getElementById('onlyZodiac') as HTMLInputElement;
-        const extraContellationControlsContainer = document.getElementById('extraConstellationControls') as HTMLDivElement;
 
         const handleAllInputs = () => {
             this.renderer.draw_asterisms = show_asterism_input?.checked ?? false;
             this.renderer.draw_constellation_grid = show_constellation_grid_input?.checked ?? false;
             this.renderer.zodiac_only = show_only_zodiac_input?.checked ?? false;
 
-            if (!this.renderer.draw_asterisms && !this.renderer.draw_constellation_grid) {
-                this.constellation_name = '';
-            }
-
-            if (extraContellationControlsContainer) {
-                extraContellationControlsContainer.style.display =
-                    this.renderer.draw_asterisms || this.renderer.draw_constellation_grid ? 'block' : 'none';
-            }
+            this.updateConstellationControls();
 
             handler();
         };
@@ -361,40 +1034,376 @@ export class Controls {
     }
 
     setConstellations(constellations: Constellation[]): void {
-        const select_constellation = document.getElementById('selectConstellation') as HTMLSelectElement;
-        if (select_constellation) {
-            for (const [index, c] of constellations.entries()) {
-                const c_option: HTMLOptionElement = document.createElement('option');
-                c_option.value = index.toString();
-                c_option.innerText = c.name;
-                select_constellation.appendChild(c_option);
-            }
-        }
+        this.constellations = constellations;
+        this.constellation_search?.setConstellations(constellations);
+        // The selection might have been restored before the constellations were loaded, so apply it again now that they are
+        this.selected_constellation = this.selected_constellation_index;
     }
 
+    /**
+     * Listen for the user picking a constellation to go to, either from the constellation search or from the map with the
+     * keyboard. While the map has focus, Tab and Shift+Tab cycle through the constellations and Enter picks the current
+     * one. Tabbing past either end of the list moves focus off of the map as usual.
+     * @param handler The index of the picked constellation will be passed to this function.
+     */
     onSelectConstellation(handler: (_: number) => void): void {
-        const select_constellation = document.getElementById('selectConstellation') as HTMLSelectElement;
-        select_constellation?.addEventListener('change', _ => {
-            const index = parseInt(select_constellation!.value, 10);
-            if (index >= 0) {
-                handler(index);
+        this.constellation_search?.onSelect(index => {
+            this.selected_constellation_index = index;
+            this.updateHighlightedConstellation();
+            handler(index);
+        });
+
+        this.renderer.addEventListener('keydown', event => {
+            const count = this.constellations.length;
+            if (event.key === 'Tab' && count > 0) {
+                const step = event.shiftKey ? -1 : 1;
+                const current = this.cycled_constellation_index;
+                const next = current == null ? (step > 0 ? 0 : count - 1) : current + step;
+                if (next < 0 || next >= count) {
+                    this.cycled_constellation_index = null;
+                    return;
+                }
+
+                event.preventDefault();
+                this.cycled_constellation_index = next;
+                const c = this.constellations[next];
+                this.constellation_name = `${c.name} - ${c.epithet}`;
+                this.announce(`${c.name}, ${c.epithet}. ${next + 1} of ${count}, press Enter to go to it.`);
+            } else if (event.key === 'Enter' && this.cycled_constellation_index != null) {
+                event.preventDefault();
+                this.selected_constellation = this.cycled_constellation_index;
+                handler(this.cycled_constellation_index);
             }
         });
+        this.renderer.addEventListener('blur', () => {
+            this.cycled_constellation_index = null;
+        });
     }
 
-    get date(): Date {
+    /**
+     * Get a snapshot of the current view, which can be restored later with `setViewState`.
+     */
+    getViewState(): ViewState {
+        return {
+            date: this.date,
+            utc_offset: this.utc_offset,
+            time_zone: this.time_zone,
+            latitude: this.latitude,
+            longitude: this.longitude,
+            zoom_factor: this.renderer.zoom_factor,
+            limiting_magnitude: this.renderer.limiting_magnitude,
+            draw_north_up: this.renderer.draw_north_up,
+            draw_asterisms: this.renderer.draw_asterisms,
+            draw_constellation_grid: this.renderer.draw_constellation_grid,
+            zodiac_only: this.renderer.zodiac_only,
+            draw_horizon_grid: this.renderer.draw_horizon_grid,
+            draw_equatorial_grid: this.renderer.draw_equatorial_grid,
+            draw_ecliptic: this.renderer.draw_ecliptic,
+            draw_zodiac_signs: this.renderer.draw_zodiac_signs,
+            draw_solar_system: this.renderer.draw_solar_system,
+            simulate_twilight: this.renderer.simulate_twilight,
+            selected_constellation: this.selected_constellation,
+        };
+    }
+
+    /**
+     * Get the settings that are remembered between visits.
+     */
+    getPreferences(): Preferences {
+        return {
+            latitude: this.latitude,
+            longitude: this.longitude,
+            zoom_factor: this.renderer.zoom_factor,
+            limiting_magnitude: this.renderer.limiting_magnitude,
+            draw_north_up: this.renderer.draw_north_up,
+            draw_asterisms: this.renderer.draw_asterisms,
+            draw_constellation_grid: this.renderer.draw_constellation_grid,
+            zodiac_only: this.renderer.zodiac_only,
+            draw_horizon_grid: this.renderer.draw_horizon_grid,
+            draw_equatorial_grid: this.renderer.draw_equatorial_grid,
+            draw_ecliptic: this.renderer.draw_ecliptic,
+            draw_zodiac_signs: this.renderer.draw_zodiac_signs,
+            draw_solar_system: this.renderer.draw_solar_system,
+            simulate_twilight: this.renderer.simulate_twilight,
+            drag_speed: this.user_drag_speed,
+        };
+    }
+
+    /**
+     * Restore saved preferences. Like `setViewState`, any fields missing from `preferences` are left as they are.
+     */
+    setPreferences(preferences: Partial<Preferences>): void {
+        this.setViewState(preferences);
+        if (preferences.drag_speed !== undefined) this.drag_speed = preferences.drag_speed;
+    }
+
+    /**
+     * Restore a view. Any fields missing from `state` are left as they are. This only updates the controls and
+     * renderer settings, it's up to the caller to render the new view.
+     * @param state The view to restore.
+     */
+    setViewState(state: Partial<ViewState>): void {
+        const date = state.date ?? this.current_date;
+        const time_zone = getViewTimeZone(state, this.time_zone, date);
+        if (time_zone != null) {
+            this.time_zone = time_zone;
+        } else if (state.utc_offset !== undefined) {
+            this.utc_offset = state.utc_offset;
+        } else {
+            this.time_zone = null;
+        }
+        // Re-display the date, since the timezone might have changed
+        this.date = date;
+        if (state.latitude != null) this.latitude = state.latitude;
+        if (state.longitude != null) this.longitude = state.longitude;
+        if (state.zoom_factor != null) this.renderer.zoom_factor = state.zoom_factor;
+        if (state.limiting_magnitude != null) this.renderer.limiting_magnitude = state.limiting_magnitude;
+        if (state.draw_north_up != null) this.renderer.draw_north_up = state.draw_north_up;
+        if (state.draw_asterisms != null) this.renderer.draw_asterisms = state.draw_asterisms;
+        if (state.draw_constellation_grid != null) this.renderer.draw_constellation_grid = state.draw_constellation_grid;
+        if (state.zodiac_only != null) this.renderer.zodiac_only = state.zodiac_only;
+        if (state.draw_horizon_grid != null) this.renderer.draw_horizon_grid = state.draw_horizon_grid;
+        if (state.draw_equatorial_grid != null) this.renderer.draw_equatorial_grid = state.draw_equatorial_grid;
+        if (state.draw_ecliptic != null) this.renderer.draw_ecliptic = state.draw_ecliptic;
+        if (state.draw_zodiac_signs != null) this.renderer.draw_zodiac_signs = state.draw_zodiac_signs;
+        if (state.draw_solar_system != null) this.renderer.draw_solar_system = state.draw_solar_system;
+        if (state.simulate_twilight != null) this.renderer.simulate_twilight = state.simulate_twilight;
+        if (state.selected_constellation !== undefined) this.selected_constellation = state.selected_constellation;
+
+        const show_asterism_input = document.getElementById('showAsterism') as HTMLInputElement;
+        const show_constellation_grid_input = document.getElementById('showGrid') as HTMLInputElement;
+        const show_only_zodiac_input = document.getElementById('onlyZodiac') as HTMLInputElement;
+        if (show_asterism_input) show_asterism_input.checked = this.renderer.draw_asterisms;
+        if (show_constellation_grid_input) show_constellation_grid_input.checked = this.renderer.draw_constellation_grid;
+        if (show_only_zodiac_input) show_only_zodiac_input.checked = this.renderer.zodiac_only;
+        const show_horizon_grid_input = document.getElementById('showHorizonGrid') as HTMLInputElement;
+        const show_equatorial_grid_input = document.getElementById('showEquatorialGrid') as HTMLInputElement;
+        if (show_horizon_grid_input) show_horizon_grid_input.checked = this.renderer.draw_horizon_grid;
+        if (show_equatorial_grid_input) show_equatorial_grid_input.checked = this.renderer.draw_equatorial_grid;
+        const show_ecliptic_input = document.getElementById('showEcliptic') as HTMLInputElement;
+        const show_zodiac_signs_input = document.getElementById('showZodiacSigns') as HTMLInputElement;
+        if (show_ecliptic_input) show_ecliptic_input.checked = this.renderer.draw_ecliptic;
+        if (show_zodiac_signs_input) show_zodiac_signs_input.checked = this.renderer.draw_zodiac_signs;
+        const show_solar_system_input = document.getElementById('showSolarSystem') as HTMLInputElement;
+        if (show_solar_system_input) show_solar_system_input.checked = this.renderer.draw_solar_system;
+        const simulate_twilight_input = document.getElementById('simulateTwilight') as HTMLInputElement;
+        if (simulate_twilight_input) simulate_twilight_input.checked = this.renderer.simulate_twilight;
+
+        this.updateConstellationControls();
+        this.updateOverlayControls();
+        this.updateLimitingMagnitudeControls();
+    }
+
+    /**
+     * Show the extra constellation controls only when constellations are being drawn, and clear the constellation
+     * name and details when they're not.
+     */
+    private updateConstellationControls(): void {
+        const constellations_visible = this.renderer.draw_asterisms || this.renderer.draw_constellation_grid;
+        if (!constellations_visible) {
+            this.constellation_name = '';
+            this.showConstellationDetails(null);
+            this.hovered_constellation = null;
+        }
+
+        const extraContellationControlsContainer = document.getElementById('extraConstellationControls') as HTMLDivElement;
+        if (extraContellationControlsContainer) {
+            extraContellationControlsContainer.style.display = constellations_visible ? 'block' : 'none';
+        }
+    }
+
+    private updateLimitingMagnitudeControls(): void {
+        const limiting_magnitude_input = document.getElementById('limitingMagnitude') as HTMLInputElement;
+        if (limiting_magnitude_input) {
+            limiting_magnitude_input.value = this.renderer.limiting_magnitude.toString();
+        }
+
+        const limiting_magnitude_value = document.getElementById('limitingMagnitudeValue') as HTMLSpanElement;
+        if (limiting_magnitude_value) {
+            limiting_magnitude_value.innerText = formatLimitingMagnitude(this.renderer.limiting_magnitude);
+        }
+    }
+
+    private updateDragSpeed(): void {
+        const default_speed = this.small_screen_query.matches ? Renderer.DefaultMobileDragSpeed : Renderer.DefaultDragSpeed;
+        this.renderer.drag_speed = this.user_drag_speed ?? default_speed;
+
+        const drag_speed_input = document.getElementById('dragSpeed') as HTMLInputElement;
+        if (drag_speed_input) {
+            drag_speed_input.value = this.renderer.drag_speed.toString();
+        }
+
+        const drag_speed_value = document.getElementById('dragSpeedValue') as HTMLSpanElement;
+        if (drag_speed_value) {
+            const speed = `${this.renderer.drag_speed.toFixed(1)}×`;
+            drag_speed_value.innerText = this.user_drag_speed == null ? `${speed} (default)` : speed;
+        }
+    }
+
+    /**
+     * Only show the zodiac sign toggle while the ecliptic is being drawn, since the signs are marked along it.
+     */
+    private updateOverlayControls(): void {
+        const extra_ecliptic_controls = document.getElementById('extraEclipticControls') as HTMLDivElement;
+        if (extra_ecliptic_controls) {
+            extra_ecliptic_controls.style.display = this.renderer.draw_ecliptic ? 'block' : 'none';
+        }
+    }
+
+    /**
+     * Shift a date so that its UTC fields are the wall-clock time in the selected timezone.
+     */
+    private toWallClock(date: Date): Date {
+        return new Date(date.valueOf() + this.getUtcOffsetAt(date) * 60000);
+    }
+
+    /**
+     * Get the UTC offset (in minutes) of the selected timezone at a given moment.
+     */
+    private getUtcOffsetAt(date: Date): number {
+        const time_zone_offset = this.time_zone == null ? null : getUtcOffset(this.time_zone, date);
+        return time_zone_offset ?? this.utc_offset_minutes ?? -date.getTimezoneOffset();
+    }
+
+    /**
+     * Tint the sky to match how bright it would be with the Sun at `sun_altitude` (in radians), and show the current
+     * twilight phase. Pass `null` to go back to the default night sky.
+     */
+    showTwilight(sun_altitude: number | null): void {
+        const backdrop = document.querySelector('.backdrop') as HTMLDivElement;
+        if (backdrop) {
+            backdrop.style.backgroundColor = sun_altitude == null ? '' : getSkyColor(sun_altitude);
+        }
+
+        const twilight_phase = document.getElementById('twilightPhase') as HTMLSpanElement;
+        if (twilight_phase) {
+            twilight_phase.innerText = sun_altitude == null ? '' : twilight_phase_labels[getTwilightPhase(sun_altitude)];
+        }
+    }
+
+    /**
+     * Format the time of day of a date (e.g. `18:05`) in the selected timezone.
+     */
+    formatTime(date: Date): string {
+        const wall_clock = this.toWallClock(date);
+        return `${padTime(wall_clock.getUTCHours())}:${padTime(wall_clock.getUTCMinutes())}`;
+    }
+
+    /**
+     * Format a date and time along with its UTC offset (e.g. `2024-03-20 21:30 UTC-04:00`) in the selected timezone.
+     */
+    formatDateTime(date: Date): string {
+        const wall_clock = this.toWallClock(date);
+        const month = padTime(wall_clock.getUTCMonth() + 1);
+        const day = padTime(wall_clock.getUTCDate());
+        return `${wall_clock.getUTCFullYear()}-${month}-${day} ${this.formatTime(date)} ${formatUtcOffset(this.getUtcOffsetAt(date))}`;
+    }
+
+    /**
+     * Interpret the values of the date and time inputs as a wall-clock time in the selected timezone.
+     * @returns The moment that the inputs describe, or `null` if the inputs are incomplete.
+     */
+    private readDateInputs(): Date | null {
         const date_input = document.getElementById('dateInput') as HTMLInputElement;
-        const current_date = date_input?.valueAsDate;
-        return current_date ?? new Date();
+        const time_input = document.getElementById('timeInput') as HTMLInputElement;
+
+        const date_parts = date_input?.value.split('-').map(part => parseInt(part, 10)) ?? [];
+        if (date_parts.length !== 3 || date_parts.some(part => isNaN(part))) {
+            return null;
+        }
+        const [year, month, day] = date_parts;
+
+        const time_parts = time_input?.value.split(':').map(part => parseInt(part, 10)) ?? [];
+        const hours = isNaN(time_parts[0]) ? 0 : time_parts[0];
+        const minutes = isNaN(time_parts[1]) ? 0 : time_parts[1];
+
+        if (this.utc_offset_minutes == null && this.time_zone == null) {
+            return new Date(year, month - 1, day, hours, minutes);
+        }
+        // A timezone's offset depends on the moment, so it's checked again at the moment that the first guess gives
+        const wall_clock = Date.UTC(year, month - 1, day, hours, minutes);
+        const guess = new Date(wall_clock - this.getUtcOffsetAt(new Date(wall_clock)) * 60000);
+        return new Date(wall_clock - this.getUtcOffsetAt(guess) * 60000);
+    }
+
+    get date(): Date {
+        return new Date(this.current_date);
     }
 
     set date(new_date: Date) {
+        this.current_date = new Date(new_date);
+        if (this.time_zone != null) {
+            this.showUtcOffset(this.getUtcOffsetAt(new_date));
+        }
+
+        const wall_clock = this.toWallClock(new_date);
+        const hours = wall_clock.getUTCHours();
+        const minutes = wall_clock.getUTCMinutes();
+
         const date_input = document.getElementById('dateInput') as HTMLInputElement;
         if (date_input) {
-            date_input.valueAsDate = new_date;
+            const month = padTime(wall_clock.getUTCMonth() + 1);
+            const day = padTime(wall_clock.getUTCDate());
+            date_input.value = `${wall_clock.getUTCFullYear()}-${month}-${day}`;
+        }
+
+        const time_input = document.getElementById('timeInput') as HTMLInputElement;
+        if (time_input) {
+            time_input.value = `${padTime(hours)}:${padTime(minutes)}`;
+        }
+
+        const time_slider = document.getElementById('timeSlider') as HTMLInputElement;
+        if (time_slider) {
+            time_slider.value = (hours * 60 + minutes).toString();
+        }
+    }
+
+    /**
+     * The UTC offset, in minutes, that dates are displayed and entered in. `null` means the browser's local timezone.
+     * Changing the offset keeps the current moment and only changes how it's displayed. Setting an offset stops following
+     * the timezone of a city picked in the city search.
+     */
+    get utc_offset(): number | null {
+        return this.utc_offset_minutes;
+    }
+
+    set utc_offset(offset_minutes: number | null) {
+        this.time_zone = null;
+        this.showUtcOffset(offset_minutes);
+
+        // Re-display the current date in the new timezone
+        this.date = this.current_date;
+    }
+
+    /**
+     * Use an offset for the date and time inputs, and show it in the timezone selector.
+     */
+    private showUtcOffset(offset_minutes: number | null): void {
+        this.utc_offset_minutes = offset_minutes;
+
+        const utc_offset_select = document.getElementById('utcOffsetSelect') as HTMLSelectElement;
+        if (utc_offset_select) {
+            const value = offset_minutes == null ? 'local' : offset_minutes.toString();
+            if (!Array.from(utc_offset_select.options).some(option => option.value === value) && offset_minutes != null) {
+                utc_offset_select.appendChild(createUtcOffsetOption(offset_minutes));
+            }
+            utc_offset_select.value = value;
         }
     }
 
+    /**
+     * The drag speed that the user picked, or `null` if they haven't picked one and the default for the screen size is
+     * used. Setting this to `null` goes back to the default.
+     */
+    get drag_speed(): number | null {
+        return this.user_drag_speed;
+    }
+
+    set drag_speed(value: number | null) {
+        this.user_drag_speed = value;
+        this.updateDragSpeed();
+    }
+
     get latitude(): number {
         return this.current_latitude;
     }
@@ -421,6 +1430,42 @@ export class Controls {
         }
     }
 
+    /**
+     * The index of the constellation selected in the constellation list, or `null` if nothing is selected.
+     */
+    get selected_constellation(): number | null {
+        return this.selected_constellation_index;
+    }
+
+    set selected_constellation(index: number | null) {
+        this.selected_constellation_index = index;
+        this.updateHighlightedConstellation();
+        if (this.constellation_search) {
+            this.constellation_search.value = index;
+        }
+        if (index != null && index < this.constellations.length) {
+            const c = this.constellations[index];
+            this.constellation_name = `${c.name} - ${c.epithet}`;
+        }
+    }
+
+    /**
+     * The index of the constellation under the cursor, or `null` if the cursor isn't over one. While a constellation is
+     * hovered, it's highlighted on the map instead of the selected constellation.
+     */
+    get hovered_constellation(): number | null {
+        return this.hovered_constellation_index;
+    }
+
+    set hovered_constellation(index: number | null) {
+        this.hovered_constellation_index = index;
+        this.updateHighlightedConstellation();
+    }
+
+    private updateHighlightedConstellation(): void {
+        this.renderer.highlighted_constellation = this.hovered_constellation_index ?? this.selected_constellation_index;
+    }
+
     get constellation_name(): string {
         return this._constellation_name ?? '';
     }
@@ -437,4 +1482,137 @@ export class Controls {
             }
         }
     }
+
+    /**
+     * Read a message out to screen reader users. Repeating the last message does nothing, so this can be called every
+     * frame with whatever is currently being hovered over.
+     */
+    announce(message: string): void {
+        if (message === this.last_announcement) {
+            return;
+        }
+        this.last_announcement = message;
+        const announcer = document.getElementById('skyAnnouncer') as HTMLDivElement;
+        if (announcer) {
+            announcer.innerText = message;
+        }
+    }
+
+    /**
+     * A textual description of what's in the sky, which screen readers use to describe the map.
+     */
+    set sky_description(description: string) {
+        const description_element = document.getElementById('skyDescription') as HTMLParagraphElement;
+        if (description_element) {
+            description_element.innerText = description;
+        }
+    }
+
+    /**
+     * Show where the point under the cursor is in the sky. Set to `null` to hide the readout.
+     */
+    set pointer_position(position: PointerPosition | null) {
+        const readout = document.getElementById('pointerReadout') as HTMLDivElement;
+        if (readout == null) return;
+
+        if (position == null) {
+            readout.classList.add('hidden');
+            return;
+        }
+
+        const { altitude, azimuth } = position.horizontal;
+        const altitude_text = `${altitude >= 0 ? '+' : ''}${formatDegrees(altitude)}`;
+        const azimuth_text = `${formatDegrees(azimuth)} ${compassPoint(azimuth)}`;
+        const right_ascension_text = formatRightAscension(position.sky_coord.right_ascension);
+        const declination_text = formatDeclination(position.sky_coord.declination);
+
+        readout.innerText = `Alt ${altitude_text}  Az ${azimuth_text}  ·  RA ${right_ascension_text}  Dec ${declination_text}`;
+        readout.classList.remove('hidden');
+    }
+
+    /**
+     * Show how far along the current timelapse recording is, from 0 to 1. Set this to `null` once the recording is done.
+     * The recording options can't be changed while a recording is running.
+     */
+    set recording_progress(progress: number | null) {
+        this._recording_progress = progress;
+
+        const record_button = document.getElementById('record') as HTMLButtonElement;
+        if (record_button) {
+            record_button.innerText = progress == null ? 'Record Timelapse' : `Stop Recording (${Math.floor(progress * 100)}%)`;
+            record_button.classList.toggle('active', progress != null);
+        }
+        for (const id of ['recordFormat', 'recordSize', 'recordDuration', 'recordFrameRate']) {
+            const select = document.getElementById(id) as HTMLSelectElement;
+            if (select) {
+                select.disabled = progress != null;
+            }
+        }
+    }
+
+    /**
+     * Show the saved bookmarks in the bookmark list.
+     */
+    set bookmarks(bookmarks: Bookmark[]) {
+        const bookmark_list = document.getElementById('bookmarkList') as HTMLUListElement;
+        if (bookmark_list == null) return;
+
+        bookmark_list.innerText = '';
+        for (const bookmark of bookmarks) {
+            const item = document.createElement('li');
+            item.dataset.id = bookmark.id;
+            item.dataset.name = bookmark.name;
+
+            const view = viewStateFromQuery(bookmark.view);
+            const jump_button = createBookmarkButton('jump', bookmark.name, `Go to ${bookmark.name}`);
+            jump_button.classList.add('bookmark-name');
+            if (view.latitude != null && view.longitude != null && view.date != null) {
+                const date_time = view.date.toISOString().slice(0, 16).replace('T', ' ');
+                jump_button.title = `${formatLocation(view.latitude, view.longitude)}, ${date_time} UTC`;
+            }
+            item.append(
+                jump_button,
+                createBookmarkButton('rename', '✎', `Rename ${bookmark.name}`),
+                createBookmarkButton('remove', '✕', `Delete ${bookmark.name}`)
+            );
+            bookmark_list.appendChild(item);
+        }
+    }
+
+    /**
+     * Show a message about the bookmarks, such as how many were imported. An empty message clears it.
+     */
+    set bookmark_status(message: string) {
+        const status = document.getElementById('bookmarkStatus') as HTMLParagraphElement;
+        if (status) {
+            status.innerText = message;
+        }
+    }
+
+    /**
+     * Show a message over the map when the sky can't be drawn normally. `null` hides it.
+     */
+    set render_error(message: string | null) {
+        const error = document.getElementById('renderError') as HTMLParagraphElement;
+        if (error) {
+            error.innerText = message ?? '';
+            error.classList.toggle('hidden', message == null);
+        }
+    }
+
+    /**
+     * Show timing information about the frames being drawn in the debug overlay. The overlay is toggled with the backtick
+     * key, and isn't updated while it's hidden.
+     */
+    set frame_stats(stats: FrameStats) {
+        const overlay = document.getElementById('frameStats') as HTMLPreElement;
+        if (overlay == null || overlay.classList.contains('hidden')) return;
+
+        overlay.innerText = [
+            `frame   ${stats.last_frame_ms.toFixed(1)} ms`,
+            `average ${stats.average_frame_ms.toFixed(1)} ms (${(1000 / Math.max(stats.average_frame_ms, 0.001)).toFixed(0)} fps)`,
+            `max     ${stats.max_frame_ms.toFixed(1)} ms`,
+            `frames  ${stats.frame_count} drawn, ${stats.coalesced_count} coalesced`,
+        ].join('\n');
+    }
 }
@@ -0,0 +1,436 @@
+import { Point } from './wasm/wasm_module';
+
+type Fn<T> = (_: T) => void;
+
+/**
+ * The parts of a pointer event that gestures are recognized from. Positions are client coordinates, in CSS pixels.
+ */
+export type PointerInput = {
+    pointer_id: number;
+    client_x: number;
+    client_y: number;
+};
+
+/**
+ * The thresholds that tell gestures apart. Distances are in CSS pixels and times are in milliseconds.
+ */
+export type GestureOptions = {
+    /** A pointer that moves further than this is panning, not tapping. */
+    tap_max_distance: number;
+    /** A pointer that's held down for longer than this isn't a tap. */
+    tap_max_duration: number;
+    /** The longest time between two taps for them to be a double tap. */
+    double_tap_interval: number;
+    /** How far apart two taps can be for them to be a double tap. */
+    double_tap_max_distance: number;
+    /** How long a pointer has to be held still for a long press. */
+    long_press_duration: number;
+    /** How far (in radians) two pointers have to turn before rotations are reported, so that pinches don't jitter into rotations. */
+    rotate_min_angle: number;
+};
+
+export const default_gesture_options: GestureOptions = {
+    tap_max_distance: 8,
+    tap_max_duration: 300,
+    double_tap_interval: 300,
+    double_tap_max_distance: 24,
+    long_press_duration: 500,
+    rotate_min_angle: Math.PI / 18,
+};
+
+/**
+ * Where the time comes from. This can be swapped out so that gestures can be recognized from recorded or synthetic pointer
+ * input without waiting in real time.
+ */
+export interface GestureClock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): number;
+    clearTimeout(id: number): void;
+}
+
+const browser_clock: GestureClock = {
+    now: () => performance.now(),
+    setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+    clearTimeout: id => window.clearTimeout(id),
+};
+
+export type PanMove = {
+    previous: Point;
+    current: Point;
+};
+
+export type PanEnd = {
+    point: Point;
+    /**
+     * `false` if the pan didn't end by the pointer being lifted, because it was cancelled or because a second pointer
+     * turned it into a pinch.
+     */
+    completed: boolean;
+};
+
+export type Pinch = {
+    /** The point halfway between the two pointers. */
+    center: Point;
+    /** How much the distance between the pointers changed since the last pinch, e.g. `1.1` when they moved 10% apart. */
+    scale: number;
+};
+
+export type Rotate = {
+    center: Point;
+    /** How far the pointers turned since the last rotation, in radians. Positive is clockwise on the screen. */
+    rotation: number;
+};
+
+type TrackedPointer = {
+    id: number;
+    start: Point;
+    start_time: number;
+    current: Point;
+};
+
+enum GestureState {
+    Idle,
+    /** One pointer is down, and it hasn't moved far enough to be a pan yet. */
+    Pressed,
+    Panning,
+    Pinching,
+}
+
+const distanceBetween = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+const angleBetween = (a: Point, b: Point): number => Math.atan2(b.y - a.y, b.x - a.x);
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Wrap an angle into [-π, π], so that turning across the negative x axis isn't seen as a full turn.
+ */
+const wrapAngle = (angle: number): number => {
+    if (angle > Math.PI) return angle - 2 * Math.PI;
+    if (angle < -Math.PI) return angle + 2 * Math.PI;
+    return angle;
+};
+
+/**
+ * Recognizes hovers, taps, double taps, long presses, pans, pinches and two-finger rotations from Pointer Events, so that
+ * mice, pens, touch screens and trackpads all go through the same logic. Only the primary mouse button is used, and only
+ * the first two pointers that are down are tracked.
+ *
+ * Every tap is reported, including both taps of a double tap, so that taps don't have to wait to see if a second one is
+ * coming. A pointer that's held still for long enough is a long press, and isn't reported as a tap when it's lifted.
+ */
+export class GestureRecognizer {
+    private options: GestureOptions;
+    private pointers: TrackedPointer[] = [];
+    private state = GestureState.Idle;
+
+    private long_press_timeout: number | null = null;
+    private did_long_press = false;
+    private last_tap: { point: Point; time: number } | null = null;
+
+    private pinch_distance = 0;
+    private pinch_angle = 0;
+    /** How far the pointers have turned since the pinch started, until it's far enough to start reporting rotations. */
+    private unreported_rotation = 0;
+    private is_rotating = false;
+
+    private hover_handlers: Fn<Point | null>[] = [];
+    private pointer_down_handlers: Fn<Point>[] = [];
+    private tap_handlers: Fn<Point>[] = [];
+    private double_tap_handlers: Fn<Point>[] = [];
+    private long_press_handlers: Fn<Point>[] = [];
+    private pan_start_handlers: Fn<Point>[] = [];
+    private pan_handlers: Fn<PanMove>[] = [];
+    private pan_end_handlers: Fn<PanEnd>[] = [];
+    private pinch_handlers: Fn<Pinch>[] = [];
+    private rotate_handlers: Fn<Rotate>[] = [];
+
+    /**
+     * @param element The element to listen to pointer events on. If this is `null`, pointer input has to be passed in with
+     * `pointerDown`, `pointerMove`, `pointerUp`, `pointerCancel` and `pointerLeave`.
+     */
+    constructor(element: HTMLElement | null, options: Partial<GestureOptions> = {}, private clock: GestureClock = browser_clock) {
+        this.options = { ...default_gesture_options, ...options };
+        if (element != null) {
+            this.attach(element);
+        }
+    }
+
+    /**
+     * Listen for a pointer moving over the element without being pressed, like a mouse cursor. Pointers that are down are
+     * panning or pinching instead, and touches can't hover at all.
+     * @param handler The point under the pointer will be passed to this function, or `null` when the pointer leaves.
+     */
+    onHover(handler: Fn<Point | null>): void {
+        this.hover_handlers.push(handler);
+    }
+
+    /**
+     * Listen for any pointer going down, before it's known which gesture it's part of.
+     */
+    onPointerDown(handler: Fn<Point>): void {
+        this.pointer_down_handlers.push(handler);
+    }
+
+    onTap(handler: Fn<Point>): void {
+        this.tap_handlers.push(handler);
+    }
+
+    onDoubleTap(handler: Fn<Point>): void {
+        this.double_tap_handlers.push(handler);
+    }
+
+    /**
+     * Listen for a pointer being held still. A long press isn't also reported as a tap.
+     */
+    onLongPress(handler: Fn<Point>): void {
+        this.long_press_handlers.push(handler);
+    }
+
+    /**
+     * Listen for a single pointer starting to pan.
+     * @param handler The point where the pointer went down will be passed to this function.
+     */
+    onPanStart(handler: Fn<Point>): void {
+        this.pan_start_handlers.push(handler);
+    }
+
+    onPan(handler: Fn<PanMove>): void {
+        this.pan_handlers.push(handler);
+    }
+
+    onPanEnd(handler: Fn<PanEnd>): void {
+        this.pan_end_handlers.push(handler);
+    }
+
+    onPinch(handler: Fn<Pinch>): void {
+        this.pinch_handlers.push(handler);
+    }
+
+    /**
+     * Listen for two pointers turning around each other. Rotations are only reported once the pointers have turned by
+     * `rotate_min_angle`, and from then on until one of them is lifted.
+     */
+    onRotate(handler: Fn<Rotate>): void {
+        this.rotate_handlers.push(handler);
+    }
+
+    pointerDown(input: PointerInput): void {
+        if (this.pointers.length >= 2 || this.getPointer(input.pointer_id) != null) {
+            return;
+        }
+
+        const point = { x: input.client_x, y: input.client_y };
+        this.pointers.push({ id: input.pointer_id, start: point, start_time: this.clock.now(), current: point });
+        this.emit(this.pointer_down_handlers, point);
+
+        if (this.pointers.length === 1) {
+            this.state = GestureState.Pressed;
+            this.did_long_press = false;
+            this.long_press_timeout = this.clock.setTimeout(() => this.handleLongPress(), this.options.long_press_duration);
+            return;
+        }
+
+        // A second pointer turns whatever the first one was doing into a pinch
+        this.cancelLongPress();
+        if (this.state === GestureState.Panning) {
+            this.emit(this.pan_end_handlers, { point: this.pointers[0].current, completed: false });
+        }
+        this.startPinch();
+    }
+
+    pointerMove(input: PointerInput): void {
+        const pointer = this.getPointer(input.pointer_id);
+        if (pointer == null) {
+            // While a gesture is going on, other pointers (such as a second mouse) aren't hovering over anything
+            if (this.state === GestureState.Idle) {
+                this.emit(this.hover_handlers, { x: input.client_x, y: input.client_y });
+            }
+            return;
+        }
+        const previous = pointer.current;
+        pointer.current = { x: input.client_x, y: input.client_y };
+
+        switch (this.state) {
+            case GestureState.Pressed:
+                if (distanceBetween(pointer.start, pointer.current) > this.options.tap_max_distance) {
+                    this.cancelLongPress();
+                    this.state = GestureState.Panning;
+                    this.emit(this.pan_start_handlers, pointer.start);
+                    this.emit(this.pan_handlers, { previous: pointer.start, current: pointer.current });
+                }
+                break;
+            case GestureState.Panning:
+                this.emit(this.pan_handlers, { previous, current: pointer.current });
+                break;
+            case GestureState.Pinching:
+                this.updatePinch();
+                break;
+        }
+    }
+
+    pointerUp(input: PointerInput): void {
+        const pointer = this.getPointer(input.pointer_id);
+        if (pointer == null) {
+            return;
+        }
+        pointer.current = { x: input.client_x, y: input.client_y };
+        this.removePointer(pointer, true);
+    }
+
+    /**
+     * Stop tracking a pointer that the browser took over, e.g. for scrolling. Cancelled pointers never count as taps.
+     */
+    pointerCancel(input: PointerInput): void {
+        const pointer = this.getPointer(input.pointer_id);
+        if (pointer != null) {
+            this.removePointer(pointer, false);
+        }
+    }
+
+    /**
+     * Stop hovering when a pointer that isn't down leaves the element.
+     */
+    pointerLeave(input: PointerInput): void {
+        if (this.getPointer(input.pointer_id) == null) {
+            this.emit(this.hover_handlers, null);
+        }
+    }
+
+    private attach(element: HTMLElement): void {
+        const toInput = (event: PointerEvent): PointerInput => ({
+            pointer_id: event.pointerId,
+            client_x: event.clientX,
+            client_y: event.clientY,
+        });
+
+        element.addEventListener('pointerdown', event => {
+            if (event.pointerType === 'mouse' && event.button !== 0) {
+                return;
+            }
+            // Keep getting events for this pointer if it leaves the element, so that drags don't get stuck
+            element.setPointerCapture(event.pointerId);
+            this.pointerDown(toInput(event));
+        });
+        element.addEventListener('pointermove', event => this.pointerMove(toInput(event)));
+        element.addEventListener('pointerup', event => this.pointerUp(toInput(event)));
+        element.addEventListener('pointercancel', event => this.pointerCancel(toInput(event)));
+        element.addEventListener('pointerleave', event => {
+            // Touches leave as soon as they're lifted, which would hide whatever a tap just showed
+            if (event.pointerType !== 'touch') {
+                this.pointerLeave(toInput(event));
+            }
+        });
+    }
+
+    private removePointer(pointer: TrackedPointer, completed: boolean): void {
+        this.pointers = this.pointers.filter(other => other.id !== pointer.id);
+
+        switch (this.state) {
+            case GestureState.Pressed:
+                this.cancelLongPress();
+                if (completed && !this.did_long_press && this.clock.now() - pointer.start_time <= this.options.tap_max_duration) {
+                    this.handleTap(pointer.current);
+                }
+                this.state = GestureState.Idle;
+                break;
+            case GestureState.Panning:
+                this.emit(this.pan_end_handlers, { point: pointer.current, completed });
+                this.state = GestureState.Idle;
+                break;
+            case GestureState.Pinching: {
+                // The pointer that's left carries on panning from where it is
+                const remaining = this.pointers[0];
+                if (remaining != null) {
+                    this.state = GestureState.Panning;
+                    this.emit(this.pan_start_handlers, remaining.current);
+                } else {
+                    this.state = GestureState.Idle;
+                }
+                break;
+            }
+        }
+    }
+
+    private handleTap(point: Point): void {
+        const now = this.clock.now();
+        this.emit(this.tap_handlers, point);
+
+        const last_tap = this.last_tap;
+        if (
+            last_tap != null &&
+            now - last_tap.time <= this.options.double_tap_interval &&
+            distanceBetween(last_tap.point, point) <= this.options.double_tap_max_distance
+        ) {
+            this.last_tap = null;
+            this.emit(this.double_tap_handlers, point);
+        } else {
+            this.last_tap = { point, time: now };
+        }
+    }
+
+    private handleLongPress(): void {
+        this.long_press_timeout = null;
+        const pointer = this.pointers[0];
+        if (this.state !== GestureState.Pressed || pointer == null) {
+            return;
+        }
+        this.did_long_press = true;
+        this.emit(this.long_press_handlers, pointer.current);
+    }
+
+    private cancelLongPress(): void {
+        if (this.long_press_timeout != null) {
+            this.clock.clearTimeout(this.long_press_timeout);
+            this.long_press_timeout = null;
+        }
+    }
+
+    private startPinch(): void {
+        const [a, b] = this.pointers;
+        this.state = GestureState.Pinching;
+        this.pinch_distance = distanceBetween(a.current, b.current);
+        this.pinch_angle = angleBetween(a.current, b.current);
+        this.unreported_rotation = 0;
+        this.is_rotating = false;
+        // Two pointers going down close together can't be a double tap with whatever comes next
+        this.last_tap = null;
+    }
+
+    private updatePinch(): void {
+        const [a, b] = this.pointers;
+        const center = midpoint(a.current, b.current);
+
+        const distance = distanceBetween(a.current, b.current);
+        if (distance > 0 && this.pinch_distance > 0 && distance !== this.pinch_distance) {
+            this.emit(this.pinch_handlers, { center, scale: distance / this.pinch_distance });
+        }
+        this.pinch_distance = distance;
+
+        const angle = angleBetween(a.current, b.current);
+        const rotation = wrapAngle(angle - this.pinch_angle);
+        this.pinch_angle = angle;
+        if (this.is_rotating) {
+            if (rotation !== 0) {
+                this.emit(this.rotate_handlers, { center, rotation });
+            }
+            return;
+        }
+
+        this.unreported_rotation += rotation;
+        if (Math.abs(this.unreported_rotation) >= this.options.rotate_min_angle) {
+            this.is_rotating = true;
+            this.emit(this.rotate_handlers, { center, rotation: this.unreported_rotation });
+        }
+    }
+
+    private getPointer(id: number): TrackedPointer | null {
+        return this.pointers.find(pointer => pointer.id === id) ?? null;
+    }
+
+    private emit<T>(handlers: Fn<T>[], value: T): void {
+        for (const handler of handlers) {
+            handler(value);
+        }
+    }
+}
@@ -1,50 +1,47 @@
+import { BookmarkStore } from './bookmarks';
+import { buildStarChart, downloadBlob, formatLocation, printChart } from './chart-export';
 import { Controls } from './controls';
-import { WasmInterface } from './wasm/wasm-interface';
-import { Coord } from './wasm/wasm_module';
+import { getDefaultPreferences, PreferenceStore } from './preferences';
+import { parseRenderBackendType, RenderBackendType } from './render-backend';
+import { RenderScheduler } from './render-scheduler';
+import { describeSky } from './sky-description';
+import { formatEclipticLongitude, solar_system_bodies } from './sky-format';
+import { createFallbackSkyRenderer, createSkyRenderer, SkyRenderer } from './sky-renderer';
+import { TimelapseRecorder } from './timelapse-recorder';
+import { ViewHistory, viewStateFromQuery } from './view-state';
+import { BodyInfo } from './wasm/wasm-interface';
+import { Coord, Point } from './wasm/wasm_module';
 
 export type Constellation = {
     name: string;
+    /** The IAU abbreviation of the name, such as `ORI` for Orion. */
+    abbreviation: string;
     /**
      * This is roughly and English translation of the constellation name. For example, the epithet for
      * Aries is "The Ram".
      */
     epithet: string;
+    /** The Bayer letters of the constellation's stars, as written in the sky files (`ALP`, `BET`, ...). */
+    stars: string[];
+    /** The area inside the constellation's boundaries, in square degrees. */
+    area: number;
+    /** Whether the Sun passes through the constellation over the course of the year. */
+    is_zodiac: boolean;
 };
 
 let constellations: Constellation[] = [];
-let wasm_interface: WasmInterface;
-
-const renderStars = (controls: Controls, date?: Date) => {
-    const render_date = date ?? controls.date;
-    const timestamp = render_date.valueOf();
-
-    if (controls.renderer == null) {
-        console.error('Could not get canvas context!');
-        return;
-    }
-
-    if (controls.renderer.settings_did_change) {
-        wasm_interface.updateSettings(controls.renderer.getCanvasSettings().toExtern());
-    }
-
-    const draw_start = performance.now();
-    wasm_interface.projectStarsAndConstellations(controls.latitude, controls.longitude, BigInt(timestamp));
-    const data = wasm_interface.getImageData();
-    if (data != null) {
-        controls.renderer.drawData(data);
-    }
-    const draw_end = performance.now();
-
-    const diff = draw_end - draw_start;
-
-    // 60frame/sec 1sec/1000ms ~= 16.6 ms per frame
-    console.log(`${1 / (diff / 1000)} fps`);
-    wasm_interface.resetImageData();
-};
+let sky_renderer: SkyRenderer | null = null;
+const view_history = new ViewHistory();
+const bookmarks = new BookmarkStore();
+const preferences = new PreferenceStore();
 
 document.addEventListener('DOMContentLoaded', () => {
     const controls = new Controls();
     controls.date = new Date();
+    // Start from where the user left off last time, unless a view was shared through the URL
+    controls.setPreferences(preferences.read());
+    // Restore any view that was shared through the URL before the first render
+    controls.setViewState(view_history.read());
 
     fetch('/constellations/meta')
         .then(c => c.json())
@@ -53,58 +50,64 @@ document.addEventListener('DOMContentLoaded', () => {
             controls.setConstellations(constellations);
         });
 
-    WebAssembly.instantiateStreaming(fetch('night-math.wasm'), {
-        env: {
-            consoleLog: (msg_ptr: number, msg_len: number) => {
-                const message = wasm_interface.getString(msg_ptr, msg_len);
-                console.log(`[WASM] ${message}`);
-            },
-            consoleWarn: (msg_ptr: number, msg_len: number) => {
-                const message = wasm_interface.getString(msg_ptr, msg_len);
-                console.warn(`[WASM] ${message}`);
-            },
-            consoleError: (msg_ptr: number, msg_len: number) => {
-                const message = wasm_interface.getString(msg_ptr, msg_len);
-                console.error(`[WASM] ${message}`);
-            },
-        },
-    }).then(async wasm_result => {
-        wasm_interface = new WasmInterface(wasm_result.instance);
-
-        wasm_interface.initialize(
-            controls.renderer.getCanvasSettings().toExtern()
-        );
+    const scheduler = new RenderScheduler(highlight_point => ({
+        settings: controls.renderer.settings_did_change ? controls.renderer.getCanvasSettings().toExtern() : null,
+        observer: { latitude: controls.latitude, longitude: controls.longitude, timestamp: BigInt(controls.date.valueOf()) },
+        highlight_point,
+    }));
+
+    controls.renderer.onResize(() => scheduler.invalidate());
+
+    // The backend can't be changed once the canvas is set up, so it's only read when the page loads
+    const backend = parseRenderBackendType(new URLSearchParams(window.location.search).get('backend'));
+    createSkyRenderer(controls.renderer, backend ?? RenderBackendType.PixelBuffer)
+        .catch(error => {
+            console.error('Could not start the renderer, falling back to the pixel buffer: ', error);
+            controls.render_error = 'The sky could not be drawn the usual way, so a slower fallback is being used.';
+            return createFallbackSkyRenderer(controls.renderer);
+        })
+        .then(created_renderer => {
+            sky_renderer = created_renderer;
+            scheduler.start(created_renderer);
+        })
+        .catch(error => {
+            console.error('Could not start the renderer: ', error);
+            controls.render_error = 'The sky could not be drawn. Try reloading the page, or using a different browser.';
+        });
 
-        renderStars(controls);
+    view_history.onNavigate(view_state => {
+        controls.setViewState(view_state);
+        scheduler.invalidate();
     });
 
     controls.onDateChange(_ => {
-        window.requestAnimationFrame(() => renderStars(controls));
+        view_history.markNewEntry();
+        scheduler.invalidate();
     });
 
     controls.onChangeConstellationView(() => {
-        window.requestAnimationFrame(() => renderStars(controls));
+        view_history.markNewEntry();
+        scheduler.invalidate();
     });
 
-    // currently deprecated
-    controls.onSetToday((current, target) => {
-        const days_per_frame = 2;
-        const days_per_frame_millis = days_per_frame * 86400000;
+    controls.onChangeLimitingMagnitude(() => {
+        scheduler.invalidate();
+    });
 
-        let next_date = new Date(current);
-        let diff = Math.abs(current.valueOf() - target.valueOf());
-        const delta = diff > days_per_frame_millis ? days_per_frame_millis : diff;
-        if (current > target) {
-            next_date.setTime(next_date.getTime() - delta);
-        } else {
-            next_date.setTime(next_date.getTime() + delta);
-        }
+    controls.onChangeOverlays(() => {
+        view_history.markNewEntry();
+        scheduler.invalidate();
+    });
 
-        renderStars(controls, next_date);
-        return next_date;
+    controls.onChangeDragSpeed(() => {
+        scheduler.invalidate();
     });
 
-    const updateLocation = (new_coord: Coord, end_zoom_factor: number): void => {
+    const updateLocation = async (new_coord: Coord, end_zoom_factor: number): Promise<void> => {
+        if (sky_renderer == null) {
+            return;
+        }
+
         // If the longitude is exactly opposite of the original, then there will be issues calculating the
         // great circle, and the journey will look really weird.
         // Introduce a slight offset to minimize this without significantly affecting end location
@@ -114,9 +117,11 @@ document.addEventListener('DOMContentLoaded', () => {
 
         const start: Coord = { latitude: controls.latitude, longitude: controls.longitude };
 
-        const waypoints = wasm_interface.findWaypoints(start, new_coord);
+        const waypoints = await sky_renderer.call('findWaypoints', start, new_coord);
         if (waypoints == null || waypoints.length === 0) {
-            renderStars(controls);
+            // Already there, but the zoom can still change
+            controls.renderer.zoom_factor = end_zoom_factor;
+            scheduler.invalidate();
             return;
         }
 
@@ -131,7 +136,7 @@ document.addEventListener('DOMContentLoaded', () => {
             controls.latitude = waypoints[waypoint_index];
             controls.longitude = waypoints[waypoint_index + 1];
             controls.renderer.zoom_factor += zoom_step;
-            renderStars(controls);
+            scheduler.invalidate();
             waypoint_index += 2;
             if (waypoint_index < waypoints.length) {
                 window.requestAnimationFrame(runWaypointTravel);
@@ -140,25 +145,86 @@ document.addEventListener('DOMContentLoaded', () => {
         window.requestAnimationFrame(runWaypointTravel);
     };
 
+    // Moving the map asks the renderer where to go, which fails if the renderer has stopped working
+    const reportMoveError = (error: unknown) => console.error('Could not move the map: ', error);
+
     controls.onLocationUpdate(new_coord => {
-        updateLocation(new_coord, controls.renderer.zoom_factor);
+        view_history.markNewEntry();
+        updateLocation(new_coord, controls.renderer.zoom_factor).catch(reportMoveError);
     });
     controls.onUseCurrentPosition(new_coord => {
-        updateLocation(new_coord, 1);
+        view_history.markNewEntry();
+        updateLocation(new_coord, 1).catch(reportMoveError);
     });
 
-    controls.onTimelapse(current_date => {
-        const days_per_frame = 0.15;
-        const days_per_frame_millis = days_per_frame * 86400000;
-        let next_date = new Date(current_date);
-        next_date.setTime(next_date.getTime() + days_per_frame_millis);
+    controls.onResetPreferences(() => {
+        preferences.clear();
+        view_history.markNewEntry();
+        const defaults = getDefaultPreferences();
+        controls.setPreferences({ ...defaults, latitude: undefined, longitude: undefined, zoom_factor: undefined });
+        controls.announce('Reset to the default settings');
+        scheduler.invalidate();
+        updateLocation({ latitude: defaults.latitude, longitude: defaults.longitude }, defaults.zoom_factor).catch(reportMoveError);
+    });
 
-        renderStars(controls, next_date);
-        return next_date;
+    controls.bookmarks = bookmarks.list();
+    bookmarks.onChange(saved_bookmarks => {
+        controls.bookmarks = saved_bookmarks;
+    });
+    controls.onBookmarks({
+        save: name => {
+            bookmarks.add(name, controls.getViewState());
+            controls.bookmark_status = `Saved "${name}".`;
+        },
+        jump: id => {
+            const bookmark = bookmarks.get(id);
+            if (bookmark == null) {
+                return;
+            }
+            view_history.markNewEntry();
+            const view = viewStateFromQuery(bookmark.view);
+            // Everything except the location and zoom changes straight away, and then the map flies to the saved location
+            controls.setViewState({ ...view, latitude: undefined, longitude: undefined, zoom_factor: undefined });
+            controls.announce(`Going to ${bookmark.name}`);
+            scheduler.invalidate();
+            updateLocation(
+                { latitude: view.latitude ?? controls.latitude, longitude: view.longitude ?? controls.longitude },
+                view.zoom_factor ?? controls.renderer.zoom_factor
+            ).catch(reportMoveError);
+        },
+        rename: (id, name) => bookmarks.rename(id, name),
+        remove: id => bookmarks.remove(id),
+        importFile: file => {
+            file.text()
+                .then(text => {
+                    const added = bookmarks.importJson(text);
+                    controls.bookmark_status = `Imported ${added} ${added === 1 ? 'view' : 'views'}.`;
+                })
+                .catch(error => {
+                    console.error('Could not import bookmarks: ', error);
+                    controls.bookmark_status = `Could not import ${file.name}, it isn't a bookmark file.`;
+                });
+        },
+        exportAll: () => {
+            downloadBlob(new Blob([bookmarks.exportJson()], { type: 'application/json' }), 'night-sky-bookmarks.json');
+        },
     });
 
-    controls.onMapDrag((current_state, new_state) => {
-        const new_coord = wasm_interface.dragAndMove(current_state.x, current_state.y, new_state.x, new_state.y);
+    controls.onTimelapse(_ => {
+        scheduler.invalidate();
+    });
+
+    /**
+     * Move the sky as if it had been dragged from `start` to `end`, which are relative to the center of the canvas as a
+     * fraction of its size. Every drag moves the sky by the same angle in the direction of the drag, which `scale` multiplies.
+     */
+    const panMap = async (start: Point, end: Point, scale: number): Promise<void> => {
+        if (sky_renderer == null) {
+            return;
+        }
+        const new_coord = await sky_renderer.call('dragAndMove', start.x, start.y, end.x, end.y);
+        const latitude_step = new_coord.latitude * scale;
+        const longitude_step = new_coord.longitude * scale;
 
         // Add or subtract new_value from current_value depending on the orientation
         const directed_add = (current_value: number, new_value: number): number => {
@@ -172,8 +238,8 @@ document.addEventListener('DOMContentLoaded', () => {
         // would be outside that range
         const pole_location = Math.PI / 2;
         const crossed_pole =
-            (controls.latitude < pole_location && directed_add(controls.latitude, new_coord.latitude) > pole_location) ||
-            (controls.latitude > -pole_location && directed_add(controls.latitude, new_coord.latitude) < -pole_location);
+            (controls.latitude < pole_location && directed_add(controls.latitude, latitude_step) > pole_location) ||
+            (controls.latitude > -pole_location && directed_add(controls.latitude, latitude_step) < -pole_location);
 
         if (crossed_pole) {
             // Add 180 degrees to the longitude because crossing a pole in a straight line would bring you to the other side
@@ -183,8 +249,8 @@ document.addEventListener('DOMContentLoaded', () => {
             controls.renderer.draw_north_up = !controls.renderer.draw_north_up;
         }
 
-        controls.latitude = directed_add(controls.latitude, new_coord.latitude);
-        controls.longitude = directed_add(controls.longitude, new_coord.longitude);
+        controls.latitude = directed_add(controls.latitude, latitude_step);
+        controls.longitude = directed_add(controls.longitude, longitude_step);
 
         // Keep the longitude value in the range [-180, 180]
         if (controls.longitude > Math.PI) {
@@ -193,40 +259,265 @@ document.addEventListener('DOMContentLoaded', () => {
             controls.longitude += Math.PI * 2;
         }
 
-        window.requestAnimationFrame(() => renderStars(controls));
-    });
+        scheduler.invalidate();
+    };
+
+    controls.onMapDrag((current_state, new_state, scale) => panMap(current_state, new_state, scale).catch(reportMoveError));
 
-    controls.onMapZoom(zoom_factor => {
+    controls.onMapZoom((zoom_factor, anchor) => {
+        const previous_zoom = controls.renderer.zoom_factor;
         controls.renderer.zoom_factor = zoom_factor;
-        renderStars(controls);
+        scheduler.invalidate();
+
+        // The distance from the center of the map to a point is proportional to its angle from the zenith. To keep the
+        // anchor in place, the zenith moves towards it by the part of that angle that the zoom would have pushed it out by.
+        const anchor_distance = Math.hypot(anchor.x, anchor.y);
+        if (anchor_distance === 0 || zoom_factor === previous_zoom) {
+            return;
+        }
+        const anchor_angle = (Math.PI * anchor_distance) / previous_zoom;
+        const pan_angle = anchor_angle * (1 - previous_zoom / zoom_factor);
+        const drag_step_angle = (controls.renderer.drag_speed * (Math.PI / 180)) / zoom_factor;
+        panMap(anchor, { x: 0, y: 0 }, pan_angle / drag_step_angle).catch(reportMoveError);
+    });
+
+    /**
+     * Describe a Sun, Moon or planet for the constellation info panel, e.g. `Moon - mag -12.1, 87% lit - rises 18:32, sets 06:10`.
+     */
+    const describeBody = async (sky_renderer: SkyRenderer, body_info: BodyInfo, timestamp: BigInt): Promise<string> => {
+        const name = solar_system_bodies[body_info.body];
+        const details = [`mag ${body_info.magnitude.toFixed(1)}`];
+        if (name === 'Moon') {
+            details.push(`${Math.round(body_info.illuminated_fraction * 100)}% lit`);
+        }
+
+        const rise_set = await sky_renderer.call('getBodyRiseSet', body_info.body, controls.latitude, controls.longitude, timestamp);
+        const formatCrossing = (label: string, minutes: number | null): string => {
+            if (minutes == null) {
+                return `doesn't ${label} in the next 24 hours`;
+            }
+            return `${label}s ${controls.formatTime(new Date(Number(timestamp) + minutes * 60000))}`;
+        };
+
+        const crossings = `${formatCrossing('rise', rise_set.rise_minutes)}, ${formatCrossing('set', rise_set.set_minutes)}`;
+        return `${name} - ${details.join(', ')} - ${crossings}`;
+    };
+
+    // Whether the constellation info panel is currently describing something other than a constellation (such as a planet or
+    // the ecliptic), so that it can be cleared once the cursor moves away
+    let showing_hover_info = false;
+
+    // The constellation that the details panel is showing
+    let details_constellation_index: number | null = null;
+    // Like moving the map, looking up what's in the sky fails if the renderer has stopped working
+    const reportDetailsError = (error: unknown) => console.error('Could not show the constellation details: ', error);
+    const updateConstellationDetails = async (index: number | null): Promise<void> => {
+        details_constellation_index = index;
+        if (sky_renderer == null || index == null || constellations[index] == null) {
+            controls.showConstellationDetails(null);
+            return;
+        }
+        const timestamp = BigInt(controls.date.valueOf());
+        const visibility = await sky_renderer.call('getConstellationVisibility', index, controls.latitude, controls.longitude, timestamp);
+        // Don't overwrite a constellation that was hovered while this one was being looked up
+        if (index === details_constellation_index) {
+            controls.showConstellationDetails(constellations[index], visibility);
+        }
+    };
+
+    // Describing the sky takes a lot of calls into wasm, so it's only done once the view has settled down
+    const sky_description_delay_ms = 1000;
+    let sky_description_timeout: number | null = null;
+    const updateSkyDescription = async (): Promise<void> => {
+        sky_description_timeout = null;
+        if (sky_renderer == null || constellations.length === 0) {
+            return;
+        }
+        const observer = { latitude: controls.latitude, longitude: controls.longitude, timestamp: BigInt(controls.date.valueOf()) };
+        // The details panel is cleared when constellations are hidden, so it only needs to follow the date and location otherwise
+        if (controls.renderer.draw_asterisms || controls.renderer.draw_constellation_grid) {
+            updateConstellationDetails(details_constellation_index).catch(reportDetailsError);
+        } else {
+            details_constellation_index = null;
+        }
+
+        const description = await describeSky(sky_renderer, constellations, observer, controls.renderer.draw_solar_system);
+        const location = formatLocation(controls.latitude, controls.longitude);
+        controls.sky_description = `The sky from ${location} on ${controls.formatDateTime(controls.date)}. ${description}`;
+    };
+
+    scheduler.onFrame((result, stats) => {
+        controls.showTwilight(controls.renderer.simulate_twilight ? result.sun_altitude : null);
+        controls.frame_stats = stats;
+        view_history.update(controls.getViewState());
+        preferences.update(controls.getPreferences());
+
+        // Planets and the ecliptic take priority over the constellation that they're in front of
+        const index = result.constellation_index;
+        if (index != null && index !== controls.hovered_constellation) {
+            controls.hovered_constellation = index;
+            // Draw the highlight for the newly hovered constellation
+            scheduler.invalidate();
+        }
+        // The constellation list is loaded separately, so the wasm module can report a constellation before it's available
+        if (index != null && !showing_hover_info && constellations[index] != null) {
+            controls.constellation_name = `${constellations[index].name} - ${constellations[index].epithet}`;
+            controls.announce(`${constellations[index].name}, ${constellations[index].epithet}`);
+            if (index !== details_constellation_index) {
+                updateConstellationDetails(index).catch(reportDetailsError);
+            }
+        }
+
+        if (sky_description_timeout != null) {
+            window.clearTimeout(sky_description_timeout);
+        }
+        sky_description_timeout = window.setTimeout(() => {
+            updateSkyDescription().catch(error => console.error('Could not describe the sky: ', error));
+        }, sky_description_delay_ms);
     });
 
-    controls.onMapHover(point => {
+    const reportPointError = (error: unknown) => console.error('Could not look up the point on the map: ', error);
+
+    const describePoint = async (point: Point | null): Promise<void> => {
+        if (point == null) {
+            // The cursor left the map, so the hover highlight goes back to the selected constellation
+            scheduler.invalidate();
+            return;
+        }
+        if (sky_renderer == null) {
+            return;
+        }
+
+        const timestamp = BigInt(controls.date.valueOf());
+        const [horizontal, sky_coord] = await Promise.all([
+            sky_renderer.call('getHorizontalCoordAtPoint', point),
+            sky_renderer.call('getSkyCoordAtPoint', point, controls.latitude, controls.longitude, timestamp),
+        ]);
+        controls.pointer_position = horizontal != null && sky_coord != null ? { horizontal, sky_coord } : null;
+
         if (controls.renderer.draw_asterisms || controls.renderer.draw_constellation_grid) {
-            const big_index = wasm_interface.getConstellationAtPoint(
+            // The name of the highlighted constellation is shown once the frame has been drawn
+            scheduler.highlight(point);
+        }
+
+        // Bodies are small, so they take priority over the ecliptic that they're usually sitting close to
+        let hover_info: string | null = null;
+        if (controls.renderer.draw_solar_system) {
+            const body_info = await sky_renderer.call('getBodyAtPoint', point, controls.latitude, controls.longitude, timestamp);
+            if (body_info != null) {
+                hover_info = await describeBody(sky_renderer, body_info, timestamp);
+            }
+        }
+        if (hover_info == null && controls.renderer.draw_ecliptic) {
+            const ecliptic_info = await sky_renderer.call(
+                'getEclipticLongitudeAtPoint',
                 point,
                 controls.latitude,
                 controls.longitude,
-                BigInt(controls.date.valueOf())
+                timestamp
             );
-            const index = Number(big_index);
-            const data = wasm_interface.getImageData();
-            if (data != null) {
-                controls.renderer.drawData(data);
+            if (ecliptic_info != null) {
+                const ecliptic_text = `Ecliptic ${formatEclipticLongitude(ecliptic_info.longitude)}`;
+                hover_info = `${ecliptic_text} - Sun at ${formatEclipticLongitude(ecliptic_info.sun_longitude)}`;
             }
-            renderStars(controls);
-            if (index >= 0) {
-                controls.constellation_name = `${constellations[index].name} - ${constellations[index].epithet}`;
+        }
+
+        if (hover_info != null) {
+            controls.constellation_name = hover_info;
+            showing_hover_info = true;
+        } else if (showing_hover_info) {
+            // If constellations are being drawn, the name of the hovered constellation has already replaced the text
+            if (!controls.renderer.draw_asterisms && !controls.renderer.draw_constellation_grid) {
+                controls.constellation_name = '';
             }
+            showing_hover_info = false;
+        }
+    };
+    controls.onMapHover(point => describePoint(point).catch(reportPointError));
+
+    const showStarAtPoint = async (point: Point): Promise<void> => {
+        if (sky_renderer == null) {
+            return;
+        }
+        const timestamp = BigInt(controls.date.valueOf());
+        const star = await sky_renderer.call('getStarAtPoint', point, controls.latitude, controls.longitude, timestamp);
+        controls.showStarInfo(star, point);
+    };
+    controls.onMapClick(point => showStarAtPoint(point).catch(reportPointError));
+
+    controls.onExport(async options => {
+        if (sky_renderer == null) {
+            return;
+        }
+
+        const observer = { latitude: controls.latitude, longitude: controls.longitude, timestamp: BigInt(controls.date.valueOf()) };
+        const file_name = `night-sky-${controls.date.toISOString().slice(0, 10)}`;
+        if (options.format === 'png') {
+            const image = await sky_renderer.exportImage(observer, options.size);
+            downloadBlob(image, `${file_name}.png`);
+            return;
+        }
+
+        const geometry = await sky_renderer.exportChart(observer, constellations.length);
+        const chart = buildStarChart(geometry, constellations, {
+            date_time: controls.formatDateTime(controls.date),
+            location: formatLocation(controls.latitude, controls.longitude),
+        });
+        if (options.format === 'svg') {
+            downloadBlob(new Blob([chart], { type: 'image/svg+xml' }), `${file_name}.svg`);
+        } else {
+            printChart(chart);
         }
     });
 
-    controls.onSelectConstellation(const_index => {
+    let recorder: TimelapseRecorder | null = null;
+    controls.onRecord(
+        async options => {
+            if (sky_renderer == null || recorder?.recording) {
+                return;
+            }
+            if (recorder == null) {
+                recorder = new TimelapseRecorder(sky_renderer, date => ({
+                    latitude: controls.latitude,
+                    longitude: controls.longitude,
+                    timestamp: BigInt(date.valueOf()),
+                }));
+            }
+
+            const start = controls.date;
+            controls.recording_progress = 0;
+            try {
+                const recording = await recorder.record(start, options, (date, progress) => {
+                    // Play the recording on the visible canvas as well, so that it's clear what's being recorded
+                    controls.date = date;
+                    controls.recording_progress = progress;
+                    scheduler.invalidate();
+                });
+                if (recording != null) {
+                    downloadBlob(recording.blob, `night-sky-timelapse-${start.toISOString().slice(0, 10)}.${recording.file_extension}`);
+                }
+            } catch (error) {
+                console.error('Could not record the timelapse: ', error);
+            } finally {
+                controls.recording_progress = null;
+            }
+        },
+        () => recorder?.stop()
+    );
+
+    const goToConstellation = async (const_index: number): Promise<void> => {
+        view_history.markNewEntry();
         controls.constellation_name = `${constellations[const_index].name} - ${constellations[const_index].epithet}`;
-        const constellation_center = wasm_interface.getConstellationCentroid(const_index);
+        controls.announce(`Going to ${constellations[const_index].name}, ${constellations[const_index].epithet}`);
+        updateConstellationDetails(const_index).catch(reportDetailsError);
+        if (sky_renderer == null) {
+            return;
+        }
+        const constellation_center = await sky_renderer.call('getConstellationCentroid', const_index);
         if (constellation_center) {
-            const new_coord = wasm_interface.getCoordForSkyCoord(constellation_center, BigInt(controls.date.valueOf()));
-            updateLocation(new_coord, 2.5);
+            const new_coord = await sky_renderer.call('getCoordForSkyCoord', constellation_center, BigInt(controls.date.valueOf()));
+            updateLocation(new_coord, 2.5).catch(reportMoveError);
         }
-    });
+    };
+    controls.onSelectConstellation(const_index => goToConstellation(const_index).catch(reportMoveError));
 });
@@ -0,0 +1,96 @@
+import { CanvasLabel } from './renderer';
+import { WasmInterface } from './wasm/wasm-interface';
+
+/**
+ * Where and when the sky is being viewed from. Latitude and longitude are in radians.
+ */
+export type Observer = {
+    latitude: number;
+    longitude: number;
+    timestamp: BigInt;
+};
+
+/**
+ * The overlays that have text labels.
+ */
+export type OverlaySettings = {
+    draw_horizon_grid: boolean;
+    draw_equatorial_grid: boolean;
+};
+
+const horizon_label_color = 'rgba(140, 200, 255, 0.9)';
+const equatorial_label_color = 'rgba(255, 180, 130, 0.9)';
+
+/**
+ * The compass directions shown around the edge of the horizon grid. They're placed a few degrees above the horizon so
+ * that they stay inside of the canvas.
+ */
+const horizon_labels = [
+    { text: 'N', azimuth: 0 },
+    { text: 'E', azimuth: Math.PI / 2 },
+    { text: 'S', azimuth: Math.PI },
+    { text: 'W', azimuth: (3 * Math.PI) / 2 },
+];
+const horizon_label_altitude = (4 * Math.PI) / 180;
+
+const getHorizonLabels = (wasm_interface: WasmInterface): CanvasLabel[] =>
+    horizon_labels.map(label => {
+        const point = wasm_interface.getPointForHorizontalCoord({ altitude: horizon_label_altitude, azimuth: label.azimuth });
+        return { text: label.text, x: point.x, y: point.y, color: horizon_label_color };
+    });
+
+/**
+ * Label every other hour of right ascension along the celestial equator, and label the declination circles along the
+ * hour line closest to the meridian, since that part of the grid is the most likely to be visible.
+ */
+const getEquatorialLabels = (wasm_interface: WasmInterface, observer: Observer): CanvasLabel[] => {
+    const labels: CanvasLabel[] = [];
+    const hour_radians = Math.PI / 12;
+
+    for (let hour = 0; hour < 24; hour += 2) {
+        const point = wasm_interface.getPointForSkyCoord(
+            { right_ascension: hour * hour_radians, declination: 0 },
+            observer.latitude,
+            observer.longitude,
+            observer.timestamp
+        );
+        if (point != null) {
+            labels.push({ text: `${hour}h`, x: point.x, y: point.y, color: equatorial_label_color });
+        }
+    }
+
+    const local_sidereal_time = wasm_interface.getLocalSiderealTime(observer.longitude, observer.timestamp);
+    const meridian_hour_line = Math.round(local_sidereal_time / hour_radians) * hour_radians;
+    for (let declination = -75; declination <= 75; declination += 15) {
+        if (declination === 0) continue;
+
+        const point = wasm_interface.getPointForSkyCoord(
+            { right_ascension: meridian_hour_line, declination: declination * (Math.PI / 180) },
+            observer.latitude,
+            observer.longitude,
+            observer.timestamp
+        );
+        if (point != null) {
+            labels.push({ text: `${declination > 0 ? '+' : ''}${declination}°`, x: point.x, y: point.y, color: equatorial_label_color });
+        }
+    }
+
+    return labels;
+};
+
+/**
+ * Get the text labels for every overlay that's currently turned on. Labels are positioned with the wasm projection,
+ * so this should be called after the canvas settings have been sent to wasm.
+ */
+export const getOverlayLabels = (wasm_interface: WasmInterface, overlay_settings: OverlaySettings, observer: Observer): CanvasLabel[] => {
+    let labels: CanvasLabel[] = [];
+
+    if (overlay_settings.draw_equatorial_grid) {
+        labels = labels.concat(getEquatorialLabels(wasm_interface, observer));
+    }
+    if (overlay_settings.draw_horizon_grid) {
+        labels = labels.concat(getHorizonLabels(wasm_interface));
+    }
+
+    return labels;
+};
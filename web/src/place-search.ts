@@ -0,0 +1,163 @@
+import { fuzzyScore } from './constellation-search';
+import { SearchBox } from './search-box';
+
+type Fn<T> = (_: T) => void;
+
+/**
+ * A city from the gazetteer served at `/gazetteer`.
+ */
+export type Place = {
+    name: string;
+    /** The state, province or other region that the city is in. This can be empty. */
+    region: string;
+    country: string;
+    /** The latitude in degrees. */
+    latitude: number;
+    /** The longitude in degrees, in [-180, 180]. */
+    longitude: number;
+    /** The IANA timezone of the city, such as `America/New_York`. */
+    timezone: string;
+    population: number;
+};
+
+const max_results = 12;
+
+/**
+ * Remove accents and other diacritics, so that `Sao Paulo` finds `São Paulo`.
+ */
+const foldAccents = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * A place along with the accent-folded names that it can be searched by.
+ */
+export type SearchablePlace = {
+    place: Place;
+    name: string;
+    /** The name along with the region and country, e.g. `Portland, Maine, United States`. */
+    full_name: string;
+};
+
+export const toSearchablePlace = (place: Place): SearchablePlace => ({
+    place,
+    name: foldAccents(place.name),
+    full_name: foldAccents([place.name, place.region, place.country].filter(part => part.length > 0).join(', ')),
+});
+
+const formatPlaceDetails = (place: Place): string =>
+    place.region.length > 0 && place.region !== place.name ? `${place.region}, ${place.country}` : place.country;
+
+/**
+ * Find the places that match a query, with the best matches first. Queries are matched against the name of each place,
+ * and a little less strongly against its full name, so that `portland maine` can tell the Portlands apart. Bigger cities
+ * win ties, since they're more likely to be the ones being searched for.
+ */
+export const searchPlaces = (query: string, places: SearchablePlace[]): Place[] => {
+    const folded_query = foldAccents(query.trim());
+    if (folded_query.length === 0) {
+        return [];
+    }
+
+    const matches: { place: Place; score: number }[] = [];
+    for (const { place, name, full_name } of places) {
+        const name_score = fuzzyScore(folded_query, name);
+        const full_name_score = fuzzyScore(folded_query, full_name);
+        if (name_score == null && full_name_score == null) {
+            continue;
+        }
+
+        const score = Math.max(name_score ?? -Infinity, (full_name_score ?? -Infinity) * 0.8);
+        matches.push({ place, score: score + Math.log10(Math.max(place.population, 1)) * 0.5 });
+    }
+
+    return matches
+        .sort((a, b) => b.score - a.score)
+        .slice(0, max_results)
+        .map(match => match.place);
+};
+
+/**
+ * Formatters that write the wall-clock time in a timezone, by timezone. The offset is looked up every time the displayed
+ * date changes, and creating a formatter is slow compared to using one.
+ */
+const wall_clock_formatters: { [time_zone: string]: Intl.DateTimeFormat } = {};
+
+/**
+ * Get the UTC offset (in minutes) of a timezone at a given moment, such as -240 for `America/New_York` during daylight
+ * saving time. Returns `null` if the browser doesn't know the timezone.
+ */
+export const getUtcOffset = (time_zone: string, date: Date): number | null => {
+    let formatted: string;
+    try {
+        if (wall_clock_formatters[time_zone] == null) {
+            wall_clock_formatters[time_zone] = new Intl.DateTimeFormat('en-US', {
+                timeZone: time_zone,
+                hour12: false,
+                year: 'numeric',
+                month: 'numeric',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: 'numeric',
+            });
+        }
+        formatted = wall_clock_formatters[time_zone].format(date);
+    } catch (error) {
+        // Unknown timezones throw a RangeError
+        return null;
+    }
+
+    // The date is formatted like `10/19/2026, 14:05`
+    const parts = (formatted.match(/\d+/g) ?? []).map(part => parseInt(part, 10));
+    if (parts.length < 5) {
+        return null;
+    }
+    const [month, day, year, hours, minutes] = parts;
+    // Some browsers write midnight as 24:00
+    const wall_clock = Date.UTC(year, month - 1, day, hours % 24, minutes);
+    const moment = Math.floor(date.valueOf() / 60000) * 60000;
+    return Math.round((wall_clock - moment) / 60000);
+};
+
+/**
+ * A text field that searches the gazetteer of cities as the user types. The gazetteer is fairly large, so it's only
+ * downloaded once the field is first focused.
+ */
+export class PlaceSearch {
+    private search_box: SearchBox<Place>;
+    private places: SearchablePlace[] = [];
+    private is_loading = false;
+
+    constructor(input: HTMLInputElement, list: HTMLUListElement) {
+        this.search_box = new SearchBox(
+            input,
+            list,
+            query => searchPlaces(query, this.places),
+            place => ({ name: place.name, details: formatPlaceDetails(place) })
+        );
+        input.addEventListener('focus', () => this.load());
+    }
+
+    /**
+     * Listen for the user picking a place from the results.
+     */
+    onSelect(handler: Fn<Place>): void {
+        this.search_box.onSelect(handler);
+    }
+
+    private load(): void {
+        if (this.is_loading || this.places.length > 0) {
+            return;
+        }
+
+        this.is_loading = true;
+        fetch('/gazetteer')
+            .then(response => response.json())
+            .then((places: Place[]) => {
+                this.places = places.map(toSearchablePlace);
+                this.search_box.refresh();
+            })
+            .catch(error => console.error('Could not load the gazetteer: ', error))
+            .then(() => {
+                this.is_loading = false;
+            });
+    }
+}
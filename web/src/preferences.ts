@@ -0,0 +1,171 @@
+import { CanvasSettings, Renderer } from './renderer';
+import { ViewState } from './view-state';
+
+/**
+ * The settings that are remembered between visits. Views shared through the URL take priority over these.
+ */
+export type Preferences = Pick<
+    ViewState,
+    | 'latitude'
+    | 'longitude'
+    | 'zoom_factor'
+    | 'limiting_magnitude'
+    | 'draw_north_up'
+    | 'draw_asterisms'
+    | 'draw_constellation_grid'
+    | 'zodiac_only'
+    | 'draw_horizon_grid'
+    | 'draw_equatorial_grid'
+    | 'draw_ecliptic'
+    | 'draw_zodiac_signs'
+    | 'draw_solar_system'
+    | 'simulate_twilight'
+> & {
+    /** How fast the map moves when it's dragged. `null` means the default for the device (slower on small screens). */
+    drag_speed: number | null;
+};
+
+const boolean_preferences: (keyof Preferences)[] = [
+    'draw_north_up',
+    'draw_asterisms',
+    'draw_constellation_grid',
+    'zodiac_only',
+    'draw_horizon_grid',
+    'draw_equatorial_grid',
+    'draw_ecliptic',
+    'draw_zodiac_signs',
+    'draw_solar_system',
+    'simulate_twilight',
+];
+
+/**
+ * The allowed range of each numeric preference. Anything outside of it is ignored when preferences are loaded.
+ */
+const numeric_preferences: { [key: string]: [number, number] } = {
+    latitude: [-Math.PI / 2, Math.PI / 2],
+    longitude: [-2 * Math.PI, 2 * Math.PI],
+    zoom_factor: [1, Renderer.MaxZoomFactor],
+    limiting_magnitude: [-2, 10],
+    drag_speed: [0.1, 10],
+};
+
+/**
+ * The settings that the page starts with when nothing has been saved.
+ */
+export const getDefaultPreferences = (): Preferences => {
+    const settings = new CanvasSettings(0, 0);
+    return {
+        latitude: 0,
+        longitude: 0,
+        zoom_factor: settings.zoom_factor,
+        limiting_magnitude: settings.limiting_magnitude,
+        draw_north_up: settings.draw_north_up,
+        draw_asterisms: settings.draw_asterisms,
+        draw_constellation_grid: settings.draw_constellation_grid,
+        zodiac_only: settings.zodiac_only,
+        draw_horizon_grid: settings.draw_horizon_grid,
+        draw_equatorial_grid: settings.draw_equatorial_grid,
+        draw_ecliptic: settings.draw_ecliptic,
+        draw_zodiac_signs: settings.draw_zodiac_signs,
+        draw_solar_system: settings.draw_solar_system,
+        simulate_twilight: settings.simulate_twilight,
+        drag_speed: null,
+    };
+};
+
+/**
+ * Read saved preferences. Values that are missing or invalid are left out of the result, so that the caller can decide
+ * what the defaults should be.
+ */
+export const parsePreferences = (text: string): Partial<Preferences> => {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed == null || typeof parsed !== 'object') {
+        return {};
+    }
+
+    const stored = parsed as { [key: string]: unknown };
+    const preferences: { [key: string]: number | boolean } = {};
+    for (const key of boolean_preferences) {
+        if (typeof stored[key] === 'boolean') {
+            preferences[key] = stored[key] as boolean;
+        }
+    }
+    for (const key in numeric_preferences) {
+        const value = stored[key];
+        const [min, max] = numeric_preferences[key];
+        if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) {
+            preferences[key] = value;
+        }
+    }
+    return preferences as Partial<Preferences>;
+};
+
+/**
+ * Keeps the user's preferences in `localStorage`. Like the page URL, saving is throttled because the location and zoom
+ * can change on every animation frame. Anything that's still waiting to be saved is written when the page is closed.
+ */
+export class PreferenceStore {
+    private pending: Preferences | null = null;
+    private pending_timeout: number | null = null;
+
+    constructor(private storage_key = 'preferences', private throttle_ms = 1000) {
+        window.addEventListener('pagehide', () => this.flush());
+    }
+
+    /**
+     * Get the saved preferences, or an empty object if nothing has been saved (or storage isn't available).
+     */
+    read(): Partial<Preferences> {
+        try {
+            const stored = window.localStorage.getItem(this.storage_key);
+            return stored == null ? {} : parsePreferences(stored);
+        } catch (error) {
+            console.error('Could not load preferences: ', error);
+            return {};
+        }
+    }
+
+    /**
+     * Schedule the preferences to be saved.
+     */
+    update(preferences: Preferences): void {
+        this.pending = preferences;
+        if (this.pending_timeout == null) {
+            this.pending_timeout = window.setTimeout(() => this.flush(), this.throttle_ms);
+        }
+    }
+
+    /**
+     * Forget the saved preferences, including any that are waiting to be saved.
+     */
+    clear(): void {
+        this.cancelPending();
+        try {
+            window.localStorage.removeItem(this.storage_key);
+        } catch (error) {
+            console.error('Could not clear preferences: ', error);
+        }
+    }
+
+    private flush(): void {
+        const preferences = this.pending;
+        this.cancelPending();
+        if (preferences == null) {
+            return;
+        }
+
+        try {
+            window.localStorage.setItem(this.storage_key, JSON.stringify(preferences));
+        } catch (error) {
+            console.error('Could not save preferences: ', error);
+        }
+    }
+
+    private cancelPending(): void {
+        if (this.pending_timeout != null) {
+            window.clearTimeout(this.pending_timeout);
+        }
+        this.pending_timeout = null;
+        this.pending = null;
+    }
+}
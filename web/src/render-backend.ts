@@ -0,0 +1,221 @@
+import { line_vertex_stride, sprite_stride, WasmInterface } from './wasm/wasm-interface';
+import { ExternCanvasSettings } from './wasm/wasm_module';
+
+export type RenderingContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * The ways that a frame can be put onto the canvas.
+ */
+export enum RenderBackendType {
+    /** Wasm draws every pixel of the frame, which is copied onto the canvas with `putImageData`. */
+    PixelBuffer = 'pixels',
+    /** Wasm records the projected stars and lines, which are drawn as point sprites and lines with WebGL2. */
+    WebGL = 'webgl',
+}
+
+/**
+ * Puts frames projected by wasm onto the canvas.
+ */
+export interface RenderBackend {
+    readonly type: RenderBackendType;
+    /** If `true`, wasm needs to record each frame's geometry instead of drawing into its pixel buffer. */
+    readonly uses_geometry: boolean;
+    /**
+     * Draw the frame that wasm just projected onto `context`, replacing whatever was there.
+     */
+    draw(wasm_interface: WasmInterface, context: RenderingContext2D, settings: ExternCanvasSettings): void;
+}
+
+class PixelBufferBackend implements RenderBackend {
+    readonly type = RenderBackendType.PixelBuffer;
+    readonly uses_geometry = false;
+
+    draw(wasm_interface: WasmInterface, context: RenderingContext2D, settings: ExternCanvasSettings): void {
+        const data = wasm_interface.getImageData();
+        if (data == null) return;
+
+        try {
+            const image_data = new ImageData(data, settings.width, settings.height);
+            context.putImageData(image_data, 0, 0);
+        } catch (error) {
+            if (error instanceof DOMException) {
+                console.error('DOMException in drawData: ', error);
+            }
+        }
+    }
+}
+
+/**
+ * Discards fragments outside of the sky circle, the same way that wasm masks its pixel buffer.
+ */
+const fragment_shader_source = `#version 300 es
+precision mediump float;
+
+uniform vec2 u_center;
+uniform float u_radius;
+uniform bool u_round;
+
+in vec4 v_color;
+out vec4 color;
+
+void main() {
+    if (distance(gl_FragCoord.xy, u_center) > u_radius) discard;
+    if (u_round && distance(gl_PointCoord, vec2(0.5)) > 0.5) discard;
+    // The canvas uses premultiplied alpha
+    color = vec4(v_color.rgb * v_color.a, v_color.a);
+}
+`;
+
+const vertex_shader_source = `#version 300 es
+uniform vec2 u_resolution;
+
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec4 a_color;
+layout(location = 2) in float a_size;
+
+out vec4 v_color;
+
+void main() {
+    // Canvas coordinates start at the top left, while clip space starts at the bottom left
+    vec2 clip_position = (a_position / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clip_position.x, -clip_position.y, 0.0, 1.0);
+    gl_PointSize = a_size;
+    v_color = a_color;
+}
+`;
+
+const position_location = 0;
+const color_location = 1;
+const size_location = 2;
+
+class WebGLBackend implements RenderBackend {
+    readonly type = RenderBackendType.WebGL;
+    readonly uses_geometry = true;
+
+    private gl: WebGL2RenderingContext;
+    private program: WebGLProgram;
+    private sprite_buffer: WebGLBuffer;
+    private line_buffer: WebGLBuffer;
+
+    /**
+     * @param canvas The canvas to draw with WebGL on. It isn't shown to the user - each frame gets copied from it onto the
+     *      visible canvas, so that labels can still be drawn on top with the 2D context.
+     */
+    constructor(private canvas: HTMLCanvasElement | OffscreenCanvas) {
+        const gl = canvas.getContext('webgl2', { antialias: false }) as WebGL2RenderingContext | null;
+        if (gl == null) {
+            throw new Error('WebGL2 is not supported');
+        }
+        this.gl = gl;
+        this.program = this.createProgram();
+        this.sprite_buffer = gl.createBuffer()!;
+        this.line_buffer = gl.createBuffer()!;
+
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        gl.clearColor(0, 0, 0, 0);
+    }
+
+    draw(wasm_interface: WasmInterface, context: RenderingContext2D, settings: ExternCanvasSettings): void {
+        const geometry = wasm_interface.getGeometry();
+        if (geometry == null) return;
+
+        const gl = this.gl;
+        if (this.canvas.width !== settings.width || this.canvas.height !== settings.height) {
+            this.canvas.width = settings.width;
+            this.canvas.height = settings.height;
+        }
+
+        gl.viewport(0, 0, settings.width, settings.height);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.useProgram(this.program);
+        gl.uniform2f(gl.getUniformLocation(this.program, 'u_resolution'), settings.width, settings.height);
+        gl.uniform2f(gl.getUniformLocation(this.program, 'u_center'), settings.width / 2, settings.height / 2);
+        gl.uniform1f(gl.getUniformLocation(this.program, 'u_radius'), settings.background_radius);
+
+        // Lines go underneath, so that constellation lines don't cross over the stars that they connect
+        gl.uniform1i(gl.getUniformLocation(this.program, 'u_round'), 0);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.line_buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, geometry.line_vertices, gl.STREAM_DRAW);
+        gl.enableVertexAttribArray(position_location);
+        gl.vertexAttribPointer(position_location, 2, gl.FLOAT, false, line_vertex_stride, 0);
+        gl.enableVertexAttribArray(color_location);
+        gl.vertexAttribPointer(color_location, 4, gl.UNSIGNED_BYTE, true, line_vertex_stride, 8);
+        gl.disableVertexAttribArray(size_location);
+        gl.vertexAttrib1f(size_location, 1);
+        gl.drawArrays(gl.LINES, 0, geometry.line_vertex_count);
+
+        gl.uniform1i(gl.getUniformLocation(this.program, 'u_round'), 1);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.sprite_buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, geometry.sprites, gl.STREAM_DRAW);
+        gl.vertexAttribPointer(position_location, 2, gl.FLOAT, false, sprite_stride, 0);
+        gl.enableVertexAttribArray(size_location);
+        gl.vertexAttribPointer(size_location, 1, gl.FLOAT, false, sprite_stride, 8);
+        gl.vertexAttribPointer(color_location, 4, gl.UNSIGNED_BYTE, true, sprite_stride, 12);
+        gl.drawArrays(gl.POINTS, 0, geometry.sprite_count);
+
+        context.clearRect(0, 0, settings.width, settings.height);
+        context.drawImage(this.canvas, 0, 0);
+    }
+
+    private createProgram(): WebGLProgram {
+        const gl = this.gl;
+        const program = gl.createProgram()!;
+        gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, vertex_shader_source));
+        gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, fragment_shader_source));
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Could not link the WebGL program: ${gl.getProgramInfoLog(program)}`);
+        }
+        return program;
+    }
+
+    private compileShader(type: number, source: string): WebGLShader {
+        const gl = this.gl;
+        const shader = gl.createShader(type)!;
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            throw new Error(`Could not compile a WebGL shader: ${gl.getShaderInfoLog(shader)}`);
+        }
+        return shader;
+    }
+}
+
+/**
+ * Create a canvas that isn't attached to the page. This works in workers as well as on the main thread.
+ */
+export const createDetachedCanvas = (): HTMLCanvasElement | OffscreenCanvas => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(1, 1);
+    }
+    return document.createElement('canvas');
+};
+
+/**
+ * Create a render backend. If WebGL2 isn't available, this falls back to the pixel buffer.
+ */
+export const createRenderBackend = (type: RenderBackendType): RenderBackend => {
+    if (type === RenderBackendType.WebGL) {
+        try {
+            return new WebGLBackend(createDetachedCanvas());
+        } catch (error) {
+            console.warn('Could not create the WebGL renderer, falling back to the pixel buffer: ', error);
+        }
+    }
+    return new PixelBufferBackend();
+};
+
+/**
+ * Read a backend type from a string, such as a URL parameter. Unknown values give `null`.
+ */
+export const parseRenderBackendType = (value: string | null): RenderBackendType | null => {
+    switch (value) {
+        case RenderBackendType.PixelBuffer:
+            return RenderBackendType.PixelBuffer;
+        case RenderBackendType.WebGL:
+            return RenderBackendType.WebGL;
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,190 @@
+import { getOverlayLabels, Observer, OverlaySettings } from './overlays';
+import { createDetachedCanvas, RenderBackend, RenderingContext2D } from './render-backend';
+import { CanvasLabel } from './renderer';
+import { ChartGeometry, RenderRequest, RenderResult } from './render-protocol';
+import { WasmInterface } from './wasm/wasm-interface';
+import { ExternCanvasSettings } from './wasm/wasm_module';
+
+/**
+ * Draws frames with the wasm renderer. This is shared between the render worker, where the context belongs to an
+ * `OffscreenCanvas`, and the main thread fallback, where it belongs to the page's canvas. The backend decides how the
+ * projected frame gets onto the canvas.
+ */
+export class RenderCore {
+    private settings: ExternCanvasSettings;
+
+    constructor(
+        private wasm_interface: WasmInterface,
+        private context: RenderingContext2D,
+        private backend: RenderBackend,
+        settings: ExternCanvasSettings
+    ) {
+        this.settings = settings;
+        this.wasm_interface.initialize(settings);
+        this.wasm_interface.setGeometryOutput(backend.uses_geometry);
+    }
+
+    render(request: RenderRequest): RenderResult {
+        const { observer } = request;
+
+        if (request.settings != null) {
+            this.updateSettings(request.settings);
+        }
+
+        let constellation_index: number | null = null;
+        if (request.highlight_point != null) {
+            const index = Number(
+                this.wasm_interface.getConstellationAtPoint(
+                    request.highlight_point,
+                    observer.latitude,
+                    observer.longitude,
+                    observer.timestamp
+                )
+            );
+            constellation_index = index >= 0 ? index : null;
+        }
+
+        this.drawFrame(this.context, observer);
+
+        return {
+            constellation_index,
+            sun_altitude: this.wasm_interface.getSunAltitude(observer.latitude, observer.longitude, observer.timestamp),
+        };
+    }
+
+    /**
+     * Draw the most recently rendered view again as a square PNG image, with the sky circle filling the image.
+     * @param size The width and height of the image, in pixels.
+     */
+    exportImage(observer: Observer, size: number): Promise<Blob> {
+        const canvas = this.drawSquareFrame(observer, size);
+        if ('convertToBlob' in canvas) {
+            return canvas.convertToBlob({ type: 'image/png' });
+        }
+        return new Promise((resolve, reject) => {
+            canvas.toBlob(blob => (blob != null ? resolve(blob) : reject(new Error('Could not encode the exported image'))), 'image/png');
+        });
+    }
+
+    /**
+     * Draw the most recently rendered view again as a square bitmap. This skips encoding the image, which makes it fast
+     * enough to use for every frame of a video.
+     * @param size The width and height of the bitmap, in pixels.
+     */
+    exportFrame(observer: Observer, size: number): Promise<ImageBitmap> {
+        const canvas = this.drawSquareFrame(observer, size);
+        if ('transferToImageBitmap' in canvas) {
+            return Promise.resolve(canvas.transferToImageBitmap());
+        }
+        return createImageBitmap(canvas);
+    }
+
+    /**
+     * Project the most recently rendered view and copy out everything that's needed to draw it as a chart.
+     * @param constellation_count The number of constellations to find label positions for.
+     */
+    exportChart(observer: Observer, constellation_count: number): ChartGeometry {
+        this.wasm_interface.setGeometryOutput(true);
+        try {
+            this.wasm_interface.projectStarsAndConstellations(observer.latitude, observer.longitude, observer.timestamp);
+            const geometry = this.wasm_interface.getGeometry()!;
+
+            const constellation_points = [];
+            for (let index = 0; index < constellation_count; index += 1) {
+                const centroid = this.wasm_interface.getConstellationCentroid(index);
+                constellation_points.push(
+                    centroid && this.wasm_interface.getPointForSkyCoord(centroid, observer.latitude, observer.longitude, observer.timestamp)
+                );
+            }
+
+            return {
+                settings: this.settings,
+                // Copy the geometry, since the views point into wasm memory that's reused by the next frame
+                sprites: geometry.sprites.slice(),
+                sprite_count: geometry.sprite_count,
+                line_vertices: geometry.line_vertices.slice(),
+                line_vertex_count: geometry.line_vertex_count,
+                constellation_points,
+                labels: getOverlayLabels(this.wasm_interface, this.getOverlaySettings(), observer),
+            };
+        } finally {
+            this.wasm_interface.resetImageData();
+            this.wasm_interface.setGeometryOutput(this.backend.uses_geometry);
+        }
+    }
+
+    /**
+     * Draw the sky onto a new square canvas, with the sky circle filling the canvas. The settings of the visible canvas are
+     * restored afterwards.
+     */
+    private drawSquareFrame(observer: Observer, size: number): HTMLCanvasElement | OffscreenCanvas {
+        const canvas = createDetachedCanvas();
+        canvas.width = size;
+        canvas.height = size;
+        const context = canvas.getContext('2d') as RenderingContext2D | null;
+        if (context == null) {
+            throw new Error('Could not create a canvas to export the view with');
+        }
+
+        const view_settings = this.settings;
+        this.settings = { ...view_settings, width: size, height: size, background_radius: size / 2 };
+        this.wasm_interface.updateSettings(this.settings);
+        try {
+            this.drawFrame(context, observer);
+        } finally {
+            this.settings = view_settings;
+            this.wasm_interface.updateSettings(view_settings);
+        }
+        return canvas;
+    }
+
+    /**
+     * Project the sky with the current settings and draw it, along with its labels, onto `context`.
+     */
+    private drawFrame(context: RenderingContext2D, observer: Observer): void {
+        this.wasm_interface.projectStarsAndConstellations(observer.latitude, observer.longitude, observer.timestamp);
+        this.backend.draw(this.wasm_interface, context, this.settings);
+        this.drawLabels(context, getOverlayLabels(this.wasm_interface, this.getOverlaySettings(), observer));
+        this.wasm_interface.resetImageData();
+    }
+
+    private getOverlaySettings(): OverlaySettings {
+        return {
+            draw_horizon_grid: this.settings.draw_horizon_grid === 1,
+            draw_equatorial_grid: this.settings.draw_equatorial_grid === 1,
+        };
+    }
+
+    private updateSettings(settings: ExternCanvasSettings): void {
+        this.settings = settings;
+        this.wasm_interface.updateSettings(settings);
+
+        const canvas = this.context.canvas;
+        if (canvas.width !== settings.width || canvas.height !== settings.height) {
+            canvas.width = settings.width;
+            canvas.height = settings.height;
+        }
+    }
+
+    /**
+     * Draw text labels on top of whatever is currently in `context`. Labels are drawn centered on their position, and
+     * labels that are outside of the canvas are skipped.
+     * @param labels The labels to draw.
+     */
+    private drawLabels(context: RenderingContext2D, labels: CanvasLabel[]): void {
+        const font_size = Math.max(11, Math.round(this.settings.background_radius / 28));
+
+        context.save();
+        context.font = `bold ${font_size}px sans-serif`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        for (const label of labels) {
+            if (label.x < 0 || label.y < 0 || label.x > this.settings.width || label.y > this.settings.height) {
+                continue;
+            }
+            context.fillStyle = label.color;
+            context.fillText(label.text, label.x, label.y);
+        }
+        context.restore();
+    }
+}
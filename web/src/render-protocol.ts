@@ -0,0 +1,78 @@
+import { Observer } from './overlays';
+import { RenderBackendType } from './render-backend';
+import { CanvasLabel } from './renderer';
+import { FrameGeometry, WasmInterface } from './wasm/wasm-interface';
+import { ExternCanvasSettings, Point } from './wasm/wasm_module';
+
+/**
+ * Everything needed to draw a single frame.
+ */
+export type RenderRequest = {
+    /** New canvas settings, or `null` if they haven't changed since the last frame. */
+    settings: ExternCanvasSettings | null;
+    observer: Observer;
+    /** If set, the constellation under this point is highlighted and its index is reported back. */
+    highlight_point: Point | null;
+};
+
+export type RenderResult = {
+    /** The index of the constellation under `highlight_point`, or `null` if there wasn't one. */
+    constellation_index: number | null;
+    /** The altitude of the Sun for the rendered observer, in radians. */
+    sun_altitude: number;
+};
+
+/**
+ * A frame's geometry, copied out of wasm memory so that it can be turned into a chart. Geometry is recorded for exports
+ * even if the canvas is drawn from the pixel buffer.
+ */
+export type ChartGeometry = FrameGeometry & {
+    /** The settings that the geometry was projected with. */
+    settings: ExternCanvasSettings;
+    /** Where each constellation's name goes, by index, or `null` if the constellation is below the horizon. */
+    constellation_points: Array<Point | null>;
+    /** The overlay labels that would be drawn on top of the frame, such as compass directions. */
+    labels: CanvasLabel[];
+};
+
+/**
+ * The names of the `WasmInterface` methods that can be called from the main thread. Methods that deal with the wasm
+ * memory directly are left out, since pointers and views into the memory can't be sent between threads.
+ */
+export type WasmMethod = Exclude<
+    {
+        [K in keyof WasmInterface]: WasmInterface[K] extends (...args: any[]) => any ? K : never;
+    }[keyof WasmInterface],
+    'initialize' | 'getImageData' | 'getGeometry' | 'getString' | 'allocObject' | 'allocBytes' | 'freeBytes' | 'setObject' | 'getObject'
+>;
+
+export type WasmArgs<K extends WasmMethod> = Parameters<WasmInterface[K]>;
+export type WasmResult<K extends WasmMethod> = ReturnType<WasmInterface[K]>;
+
+/**
+ * Messages sent from the main thread to the render worker. Every message has an `id`, and the worker responds to each
+ * one with a `RenderWorkerResponse` with the same `id`.
+ */
+export type RenderWorkerRequest =
+    | { type: 'loadWasm'; id: number }
+    | { type: 'initialize'; id: number; canvas: OffscreenCanvas; settings: ExternCanvasSettings; backend: RenderBackendType }
+    | { type: 'render'; id: number; request: RenderRequest }
+    | { type: 'call'; id: number; method: WasmMethod; args: unknown[] }
+    | { type: 'exportImage'; id: number; observer: Observer; size: number }
+    | { type: 'exportFrame'; id: number; observer: Observer; size: number }
+    | { type: 'exportChart'; id: number; observer: Observer; constellation_count: number };
+
+export type RenderWorkerResponse = { id: number; result: unknown } | { id: number; error: string };
+
+/**
+ * The result that the worker responds with for each type of request. Calls respond with whatever the wasm method returned.
+ */
+export type RenderWorkerResults = {
+    loadWasm: void;
+    initialize: void;
+    render: RenderResult;
+    call: unknown;
+    exportImage: Blob;
+    exportFrame: ImageBitmap;
+    exportChart: ChartGeometry;
+};
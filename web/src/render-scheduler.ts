@@ -0,0 +1,154 @@
+import { RenderRequest, RenderResult } from './render-protocol';
+import { SkyRenderer } from './sky-renderer';
+import { Point } from './wasm/wasm_module';
+
+/**
+ * Timing information about the frames that have been drawn.
+ */
+export type FrameStats = {
+    /** The number of frames drawn since the page loaded. */
+    frame_count: number;
+    /** The number of times the view changed while a frame was already waiting to be drawn. */
+    coalesced_count: number;
+    /** How long the most recent frame took to draw, in milliseconds. */
+    last_frame_ms: number;
+    /** The average time to draw a frame over the last `frame_sample_count` frames, in milliseconds. */
+    average_frame_ms: number;
+    /** The longest time to draw a frame over the last `frame_sample_count` frames, in milliseconds. */
+    max_frame_ms: number;
+};
+
+const frame_sample_count = 60;
+
+/**
+ * Decides when the sky gets drawn. Instead of drawing whenever something changes, callers mark the view as dirty with
+ * `invalidate`, and the scheduler draws at most one frame per animation frame. Any number of changes within the same
+ * frame are drawn together, and nothing is drawn (or scheduled) while the view isn't changing.
+ *
+ * Frames can take longer than one animation frame to draw when rendering happens in a worker. In that case the next
+ * frame isn't scheduled until the current one has finished, so the projections never pile up.
+ */
+export class RenderScheduler {
+    private sky_renderer: SkyRenderer | null = null;
+
+    private is_dirty = false;
+    private is_drawing = false;
+    private animation_frame: number | null = null;
+    /** The point to highlight a constellation at in the next frame. */
+    private highlight_point: Point | null = null;
+
+    private frame_times: number[] = [];
+    private _stats: FrameStats = {
+        frame_count: 0,
+        coalesced_count: 0,
+        last_frame_ms: 0,
+        average_frame_ms: 0,
+        max_frame_ms: 0,
+    };
+
+    private frame_handlers: Array<(result: RenderResult, stats: FrameStats) => void> = [];
+
+    /**
+     * @param buildRequest Get everything needed to draw the current view. This is called once per frame, right before
+     *      the frame is drawn, so it always sees the latest state.
+     */
+    constructor(private buildRequest: (highlight_point: Point | null) => RenderRequest) {}
+
+    /**
+     * Start drawing with a renderer. Changes made before this is called are drawn in the first frame.
+     */
+    start(sky_renderer: SkyRenderer): void {
+        this.sky_renderer = sky_renderer;
+        this.invalidate();
+    }
+
+    /**
+     * Listen for frames being drawn.
+     */
+    onFrame(handler: (result: RenderResult, stats: FrameStats) => void): void {
+        this.frame_handlers.push(handler);
+    }
+
+    /**
+     * Mark the view as changed, so that it gets drawn in the next animation frame.
+     */
+    invalidate(): void {
+        if (this.is_dirty) {
+            this._stats.coalesced_count += 1;
+        }
+        this.is_dirty = true;
+        this.requestFrame();
+    }
+
+    /**
+     * Highlight the constellation under a point in the next frame. The index of the constellation is reported in that
+     * frame's result.
+     */
+    highlight(point: Point): void {
+        this.highlight_point = point;
+        this.invalidate();
+    }
+
+    get stats(): FrameStats {
+        return this._stats;
+    }
+
+    private requestFrame(): void {
+        if (this.sky_renderer == null || this.is_drawing || this.animation_frame != null) {
+            return;
+        }
+        this.animation_frame = window.requestAnimationFrame(() => this.runFrame());
+    }
+
+    private runFrame(): void {
+        this.animation_frame = null;
+        if (this.sky_renderer == null || !this.is_dirty) {
+            return;
+        }
+
+        const request = this.buildRequest(this.highlight_point);
+        this.highlight_point = null;
+        this.is_dirty = false;
+        this.is_drawing = true;
+
+        const frame_start = performance.now();
+        this.sky_renderer
+            .render(request)
+            .then(result => {
+                this.recordFrameTime(performance.now() - frame_start);
+                for (const handler of this.frame_handlers) {
+                    handler(result, this._stats);
+                }
+            })
+            .catch(error => console.error('Error while drawing a frame: ', error))
+            .then(() => {
+                this.is_drawing = false;
+                // Anything that changed while this frame was being drawn still needs to be shown
+                if (this.is_dirty) {
+                    this.requestFrame();
+                }
+            });
+    }
+
+    private recordFrameTime(frame_ms: number): void {
+        this.frame_times.push(frame_ms);
+        if (this.frame_times.length > frame_sample_count) {
+            this.frame_times.shift();
+        }
+
+        let total_ms = 0;
+        let max_frame_ms = 0;
+        for (const time of this.frame_times) {
+            total_ms += time;
+            max_frame_ms = Math.max(max_frame_ms, time);
+        }
+
+        this._stats = {
+            ...this._stats,
+            frame_count: this._stats.frame_count + 1,
+            last_frame_ms: frame_ms,
+            average_frame_ms: total_ms / this.frame_times.length,
+            max_frame_ms,
+        };
+    }
+}
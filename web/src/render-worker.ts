@@ -0,0 +1,87 @@
+import { createRenderBackend } from './render-backend';
+import { RenderCore } from './render-core';
+import { RenderWorkerRequest, RenderWorkerResponse } from './render-protocol';
+import { instantiateWasmInterface, WasmInterface } from './wasm/wasm-interface';
+
+/**
+ * The parts of the dedicated worker global scope that are used here. The project isn't compiled with the `webworker`
+ * lib, since everything else runs on the main thread.
+ */
+interface RenderWorkerScope {
+    onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null;
+    postMessage(message: RenderWorkerResponse, transfer?: Transferable[]): void;
+}
+
+type RenderState = {
+    wasm_interface: WasmInterface;
+    core: RenderCore;
+};
+
+const worker_scope = self as unknown as RenderWorkerScope;
+
+/**
+ * Resolves once the `loadWasm` message has been handled. The wasm module is loaded before the canvas is sent, so that the
+ * main thread only gives up its canvas to a worker that's known to work.
+ */
+let loaded_wasm_interface: Promise<WasmInterface> | null = null;
+
+/**
+ * Resolves once the `initialize` message has been handled. Every other message waits on this, so messages that arrive
+ * while the wasm module is still loading are handled in the order that they were sent.
+ */
+let render_state: Promise<RenderState> | null = null;
+
+const handleRequest = async (message: RenderWorkerRequest): Promise<unknown> => {
+    if (message.type === 'loadWasm') {
+        loaded_wasm_interface = instantiateWasmInterface('night-math.wasm');
+        await loaded_wasm_interface;
+        return undefined;
+    }
+
+    if (message.type === 'initialize') {
+        if (loaded_wasm_interface == null) {
+            throw new Error(`Received an '${message.type}' message before the wasm module was loaded`);
+        }
+        const context = message.canvas.getContext('2d');
+        if (context == null) {
+            throw new Error('Could not get an offscreen canvas context');
+        }
+        render_state = loaded_wasm_interface.then(wasm_interface => ({
+            wasm_interface,
+            core: new RenderCore(wasm_interface, context, createRenderBackend(message.backend), message.settings),
+        }));
+        await render_state;
+        return undefined;
+    }
+
+    if (render_state == null) {
+        throw new Error(`Received a '${message.type}' message before the render worker was initialized`);
+    }
+    const { wasm_interface, core } = await render_state;
+
+    switch (message.type) {
+        case 'render':
+            return core.render(message.request);
+        case 'call': {
+            const method = wasm_interface[message.method] as (...args: unknown[]) => unknown;
+            return method.apply(wasm_interface, message.args);
+        }
+        case 'exportImage':
+            return core.exportImage(message.observer, message.size);
+        case 'exportFrame':
+            return core.exportFrame(message.observer, message.size);
+        case 'exportChart':
+            return core.exportChart(message.observer, message.constellation_count);
+    }
+};
+
+worker_scope.onmessage = event => {
+    const message = event.data;
+    handleRequest(message)
+        .then(result => {
+            // Bitmaps are moved to the main thread instead of being copied, since a video records a lot of them
+            const transfer = typeof ImageBitmap !== 'undefined' && result instanceof ImageBitmap ? [result] : [];
+            worker_scope.postMessage({ id: message.id, result }, transfer);
+        })
+        .catch(error => worker_scope.postMessage({ id: message.id, error: error instanceof Error ? error.message : String(error) }));
+};
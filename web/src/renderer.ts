@@ -1,14 +1,35 @@
-import { ExternCanvasSettings } from './wasm/wasm_module';
+import { ExternCanvasSettings, Point } from './wasm/wasm_module';
+
+/**
+ * Text that gets drawn on top of the rendered sky, such as the compass directions of the horizon grid.
+ */
+export type CanvasLabel = {
+    text: string;
+    x: number;
+    y: number;
+    color: string;
+};
+
 export class CanvasSettings {
     width: number;
     height: number;
     background_radius: number;
     zoom_factor: number;
     drag_speed: number;
+    /** The number of canvas pixels per CSS pixel. Wasm uses this to measure how close the pointer is to things in CSS pixels. */
+    pixel_ratio: number;
+    limiting_magnitude: number;
+    highlighted_constellation: number | null;
     draw_north_up: boolean;
     draw_constellation_grid: boolean;
     draw_asterisms: boolean;
     zodiac_only: boolean;
+    draw_horizon_grid: boolean;
+    draw_equatorial_grid: boolean;
+    draw_ecliptic: boolean;
+    draw_zodiac_signs: boolean;
+    draw_solar_system: boolean;
+    simulate_twilight: boolean;
 
     constructor(width: number, height: number) {
         this.width = width;
@@ -16,10 +37,19 @@ export class CanvasSettings {
         this.background_radius = 0.5 * Math.min(width, height);
         this.zoom_factor = 1.0;
         this.drag_speed = Renderer.DefaultDragSpeed;
+        this.pixel_ratio = 1;
+        this.limiting_magnitude = Renderer.MaxLimitingMagnitude;
+        this.highlighted_constellation = null;
         this.draw_north_up = true;
         this.draw_constellation_grid = false;
         this.draw_asterisms = false;
         this.zodiac_only = false;
+        this.draw_horizon_grid = false;
+        this.draw_equatorial_grid = false;
+        this.draw_ecliptic = false;
+        this.draw_zodiac_signs = false;
+        this.draw_solar_system = true;
+        this.simulate_twilight = false;
     }
 
     public toExtern(): ExternCanvasSettings {
@@ -29,10 +59,19 @@ export class CanvasSettings {
             background_radius: this.background_radius,
             zoom_factor: this.zoom_factor,
             drag_speed: this.drag_speed,
+            pixel_ratio: this.pixel_ratio,
+            limiting_magnitude: this.limiting_magnitude,
+            highlighted_constellation: this.highlighted_constellation ?? -1,
             draw_north_up: this.draw_north_up ? 1 : 0,
             draw_constellation_grid: this.draw_constellation_grid ? 1 : 0,
             draw_asterisms: this.draw_asterisms ? 1 : 0,
             zodiac_only: this.zodiac_only ? 1 : 0,
+            draw_horizon_grid: this.draw_horizon_grid ? 1 : 0,
+            draw_equatorial_grid: this.draw_equatorial_grid ? 1 : 0,
+            draw_ecliptic: this.draw_ecliptic ? 1 : 0,
+            draw_zodiac_signs: this.draw_zodiac_signs ? 1 : 0,
+            draw_solar_system: this.draw_solar_system ? 1 : 0,
+            simulate_twilight: this.simulate_twilight ? 1 : 0,
         };
     }
 }
@@ -40,15 +79,26 @@ export class CanvasSettings {
 interface Canvas {
     id: string;
     canvas: HTMLCanvasElement;
-    context: CanvasRenderingContext2D;
+    /** Only created when the sky is drawn on the main thread, since a canvas with a context can't be transferred. */
+    context: CanvasRenderingContext2D | null;
+    /** Whether the canvas has been handed over to a worker, after which it can't be drawn to from the main thread. */
+    is_transferred: boolean;
 }
 
 export class Renderer {
     public static readonly DefaultDragSpeed = 1.3;
     public static readonly DefaultMobileDragSpeed = 1;
     /**
-     * The main canvas is the one that's shown to the user. It's only drawn to in single batches, once the workers
-     * have finished drawing everything to the offscreen buffer.
+     * The faintest limiting magnitude that can be set. This is a little fainter than the faintest star in the star data, so
+     * at this setting every star is drawn.
+     */
+    public static readonly MaxLimitingMagnitude = 8.5;
+    /** How far the map can be zoomed in. Zooming out stops at 1, where the whole sky fits in the canvas. */
+    public static readonly MaxZoomFactor = 1000;
+    /**
+     * The main canvas is the one that's shown to the user. When the browser supports `OffscreenCanvas`, drawing is handed
+     * off to the render worker with `transferToOffscreen`, and this class only keeps track of the canvas settings. Otherwise
+     * the sky is drawn on the main thread using `context`.
      */
     private main_canvas: Canvas;
 
@@ -56,39 +106,121 @@ export class Renderer {
 
     private _settings_did_change = true;
 
+    private resize_handlers: Array<() => void> = [];
+
     constructor(main_canvas_id: string) {
         const main_canvas = document.getElementById(main_canvas_id) as HTMLCanvasElement;
-        const main_canvas_context = main_canvas.getContext('2d')!;
 
         this.main_canvas = {
             id: main_canvas_id,
             canvas: main_canvas,
-            context: main_canvas_context,
+            context: null,
+            is_transferred: false,
         };
 
-        const canvas_dim = main_canvas.clientWidth < main_canvas.clientHeight ? main_canvas.clientWidth : main_canvas.clientHeight;
+        const canvas_dim = this.getDeviceCanvasSize();
 
         this.main_canvas.canvas.width = canvas_dim;
         this.main_canvas.canvas.height = canvas_dim;
 
         this.settings = new CanvasSettings(this.main_canvas.canvas.width, this.main_canvas.canvas.height);
+        this.settings.pixel_ratio = window.devicePixelRatio || 1;
+
+        const resize_observer = new ResizeObserver(() => this.updateSize());
+        resize_observer.observe(main_canvas);
+        this.watchPixelRatio();
+    }
+
+    /**
+     * Listen for the canvas changing size, either because the page layout changed or because the device pixel ratio changed
+     * (for example, when the window is moved to a different display or the page is zoomed).
+     */
+    onResize(handler: () => void): void {
+        this.resize_handlers.push(handler);
+    }
+
+    /**
+     * Convert a position on the page, such as a mouse event's `clientX` and `clientY`, into a point on the canvas. The canvas
+     * is drawn at the device's resolution, so canvas points aren't the same as CSS pixels.
+     */
+    pointFromClient(client_x: number, client_y: number): Point {
+        const canvas_rect = this.main_canvas.canvas.getBoundingClientRect();
+        const pixel_ratio = this.getPixelRatio(canvas_rect);
+        return {
+            x: (client_x - canvas_rect.x) * pixel_ratio,
+            y: (client_y - canvas_rect.y) * pixel_ratio,
+        };
+    }
+
+    /**
+     * Convert a point on the canvas into CSS pixels, relative to the top left of the canvas. This is the inverse of
+     * `pointFromClient`, without the offset from the page.
+     */
+    pointToCss(point: Point): Point {
+        const pixel_ratio = this.getPixelRatio(this.main_canvas.canvas.getBoundingClientRect());
+        return { x: point.x / pixel_ratio, y: point.y / pixel_ratio };
+    }
+
+    /**
+     * The number of canvas pixels per CSS pixel.
+     */
+    private getPixelRatio(canvas_rect: DOMRect): number {
+        return canvas_rect.width > 0 ? this.width / canvas_rect.width : 1;
     }
 
     /**
-     * Given pixel data as a `Uint8ClampedArray`, put the image onto the canvas using `canvas.putImageData`.
-     * @param data The pixel data buffer.
+     * The size the canvas needs to be to draw one canvas pixel per device pixel. The canvas is square, so this fits the
+     * smallest side.
      */
-    drawData(data: Uint8ClampedArray): void {
-        try {
-            const image_data = new ImageData(data, this.main_canvas.canvas.width, this.main_canvas.canvas.height);
-            this.main_canvas.context.putImageData(image_data, 0, 0);
-        } catch (error) {
-            if (error instanceof DOMException) {
-                console.error('DOMException in drawPoint: ', error);
-            }
+    private getDeviceCanvasSize(): number {
+        const canvas = this.main_canvas.canvas;
+        const css_size = Math.min(canvas.clientWidth, canvas.clientHeight);
+        return Math.round(css_size * (window.devicePixelRatio || 1));
+    }
+
+    private updateSize(): void {
+        const pixel_ratio = window.devicePixelRatio || 1;
+        if (pixel_ratio !== this.settings.pixel_ratio) {
+            this._settings_did_change = true;
+            this.settings.pixel_ratio = pixel_ratio;
+        }
+
+        const canvas_dim = this.getDeviceCanvasSize();
+        // The canvas has no size while it's hidden, so keep the last size until it's visible again
+        if (canvas_dim === 0 || (canvas_dim === this.width && canvas_dim === this.height)) {
+            return;
+        }
+
+        this.width = canvas_dim;
+        this.height = canvas_dim;
+        for (const handler of this.resize_handlers) {
+            handler();
         }
     }
 
+    /**
+     * Media queries can only match a specific pixel ratio, so a new query is made each time the ratio changes.
+     */
+    private watchPixelRatio(): void {
+        const pixel_ratio_query = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+        const handlePixelRatioChange = () => {
+            pixel_ratio_query.removeEventListener('change', handlePixelRatioChange);
+            this.updateSize();
+            this.watchPixelRatio();
+        };
+        pixel_ratio_query.addEventListener('change', handlePixelRatioChange);
+    }
+
+    /**
+     * Hand control of the canvas over to an `OffscreenCanvas` so that it can be drawn to from a worker. After this the
+     * canvas size is set by whoever owns the `OffscreenCanvas`.
+     */
+    transferToOffscreen(): OffscreenCanvas {
+        const offscreen_canvas = this.main_canvas.canvas.transferControlToOffscreen();
+        this.main_canvas.is_transferred = true;
+        return offscreen_canvas;
+    }
+
     /**
      * Add an event listener to the main canvas.
      * @param event_name
@@ -106,7 +238,7 @@ export class Renderer {
     }
 
     /**
-     * The width of the canvas.
+     * The width of the canvas, in device pixels.
      */
     get width(): number {
         return this.settings.width;
@@ -115,12 +247,11 @@ export class Renderer {
     set width(value: number) {
         this._settings_did_change = true;
         this.settings.width = value;
-        this.main_canvas.canvas.width = value;
         this.settings.background_radius = 0.5 * Math.min(this.width, this.height);
     }
 
     /**
-     * The height of the canvas.
+     * The height of the canvas, in device pixels.
      */
     get height(): number {
         return this.settings.height;
@@ -129,7 +260,6 @@ export class Renderer {
     set height(value: number) {
         this._settings_did_change = true;
         this.settings.height = value;
-        this.main_canvas.canvas.height = value;
         this.settings.background_radius = 0.5 * Math.min(this.width, this.height);
     }
 
@@ -166,7 +296,20 @@ export class Renderer {
         return this.main_canvas.canvas;
     }
 
-    get context() {
+    /**
+     * Whether the canvas has been handed over to a worker with `transferToOffscreen`.
+     */
+    get is_transferred(): boolean {
+        return this.main_canvas.is_transferred;
+    }
+
+    /**
+     * The 2D context of the user-facing canvas. This can't be used once the canvas has been transferred to a worker.
+     */
+    get context(): CanvasRenderingContext2D {
+        if (this.main_canvas.context == null) {
+            this.main_canvas.context = this.main_canvas.canvas.getContext('2d')!;
+        }
         return this.main_canvas.context;
     }
 
@@ -197,12 +340,96 @@ export class Renderer {
         return this.settings.zodiac_only;
     }
 
+    set draw_horizon_grid(value: boolean) {
+        this._settings_did_change = true;
+        this.settings.draw_horizon_grid = value;
+    }
+
+    get draw_horizon_grid(): boolean {
+        return this.settings.draw_horizon_grid;
+    }
+
+    set draw_equatorial_grid(value: boolean) {
+        this._settings_did_change = true;
+        this.settings.draw_equatorial_grid = value;
+    }
+
+    get draw_equatorial_grid(): boolean {
+        return this.settings.draw_equatorial_grid;
+    }
+
+    set draw_ecliptic(value: boolean) {
+        this._settings_did_change = true;
+        this.settings.draw_ecliptic = value;
+    }
+
+    get draw_ecliptic(): boolean {
+        return this.settings.draw_ecliptic;
+    }
+
+    set draw_zodiac_signs(value: boolean) {
+        this._settings_did_change = true;
+        this.settings.draw_zodiac_signs = value;
+    }
+
+    get draw_zodiac_signs(): boolean {
+        return this.settings.draw_zodiac_signs;
+    }
+
+    set draw_solar_system(value: boolean) {
+        this._settings_did_change = true;
+        this.settings.draw_solar_system = value;
+    }
+
+    get draw_solar_system(): boolean {
+        return this.settings.draw_solar_system;
+    }
+
+    /**
+     * When `true`, the sky gets brighter and faint stars fade out as the Sun gets closer to the horizon.
+     */
+    set simulate_twilight(value: boolean) {
+        this._settings_did_change = true;
+        this.settings.simulate_twilight = value;
+    }
+
+    get simulate_twilight(): boolean {
+        return this.settings.simulate_twilight;
+    }
+
+    /**
+     * Stars fainter than this magnitude aren't drawn.
+     */
+    set limiting_magnitude(value: number) {
+        this._settings_did_change = true;
+        this.settings.limiting_magnitude = value;
+    }
+
+    get limiting_magnitude(): number {
+        return this.settings.limiting_magnitude;
+    }
+
+    /**
+     * The index of the constellation to draw in the highlight color, or `null` to not highlight one. The highlighted
+     * constellation is drawn even when constellations are turned off.
+     */
+    set highlighted_constellation(value: number | null) {
+        if (value !== this.settings.highlighted_constellation) {
+            this._settings_did_change = true;
+            this.settings.highlighted_constellation = value;
+        }
+    }
+
+    get highlighted_constellation(): number | null {
+        return this.settings.highlighted_constellation;
+    }
+
     set drag_speed(value: number) {
         this._settings_did_change = true;
         this.settings.drag_speed = value;
     }
 
     get drag_speed(): number {
-        return this.drag_speed;
+        return this.settings.drag_speed;
     }
 }
@@ -0,0 +1,180 @@
+type Fn<T> = (_: T) => void;
+
+/**
+ * How a search result is shown in the list of results.
+ */
+export type SearchOption = {
+    name: string;
+    details: string;
+};
+
+/**
+ * A text field that searches as the user types, with the results in a listbox underneath it. This follows the ARIA
+ * combobox pattern: the arrow keys move through the results, Enter picks one and Escape closes the list.
+ *
+ * The input needs `role="combobox"` and the list needs an `id` and `role="listbox"` in the page. The list is shown and
+ * hidden with the `hidden` class.
+ */
+export class SearchBox<T> {
+    private results: T[] = [];
+    /** The position in `results` of the result that's highlighted with the arrow keys. */
+    private active_result: number | null = null;
+    /** The text shown in the field when the user isn't searching. */
+    private selected_text = '';
+
+    private select_handlers: Fn<T>[] = [];
+
+    /**
+     * @param search Get the results for a query, with the best matches first.
+     * @param describe Get the text shown for a result. The name is put in the text field when the result is picked.
+     */
+    constructor(
+        private input: HTMLInputElement,
+        private list: HTMLUListElement,
+        private search: (query: string) => T[],
+        private describe: (result: T) => SearchOption
+    ) {
+        this.input.addEventListener('input', () => this.updateResults());
+        this.input.addEventListener('focus', () => {
+            this.input.select();
+            this.updateResults();
+        });
+        this.input.addEventListener('blur', () => {
+            this.close();
+            // Searches that were abandoned go back to showing the current selection
+            this.input.value = this.selected_text;
+        });
+        this.input.addEventListener('keydown', event => this.handleKeyDown(event));
+
+        // Keep focus on the input while a result is being clicked, so that the list doesn't close before the click lands
+        this.list.addEventListener('mousedown', event => event.preventDefault());
+        this.list.addEventListener('click', event => {
+            const option = (event.target as HTMLElement).closest('[role="option"]') as HTMLLIElement | null;
+            if (option?.dataset.index != null) {
+                this.select(this.results[parseInt(option.dataset.index, 10)]);
+            }
+        });
+    }
+
+    /**
+     * Listen for the user picking a result.
+     */
+    onSelect(handler: Fn<T>): void {
+        this.select_handlers.push(handler);
+    }
+
+    /**
+     * Show some text in the field without searching for it, such as the name of whatever is currently selected.
+     */
+    set text(value: string) {
+        this.selected_text = value;
+        if (document.activeElement !== this.input) {
+            this.input.value = value;
+        }
+    }
+
+    /**
+     * Search again with the current query, if the results are showing. Call this when the data being searched changes.
+     */
+    refresh(): void {
+        if (this.isOpen() || document.activeElement === this.input) {
+            this.updateResults();
+        }
+    }
+
+    private updateResults(): void {
+        this.results = this.search(this.input.value);
+        this.active_result = this.results.length > 0 && this.input.value.trim().length > 0 ? 0 : null;
+
+        this.list.innerText = '';
+        this.results.forEach((result, result_index) => {
+            const { name, details } = this.describe(result);
+            const option = document.createElement('li');
+            option.id = `${this.list.id}Option${result_index}`;
+            option.setAttribute('role', 'option');
+            option.dataset.index = result_index.toString();
+
+            const name_text = document.createElement('span');
+            name_text.className = 'search-result-name';
+            name_text.innerText = name;
+            const details_text = document.createElement('span');
+            details_text.className = 'search-result-details';
+            details_text.innerText = details;
+            option.append(name_text, details_text);
+
+            option.addEventListener('mouseenter', () => this.setActiveResult(result_index));
+            this.list.appendChild(option);
+        });
+
+        this.list.classList.toggle('hidden', this.results.length === 0);
+        this.input.setAttribute('aria-expanded', this.results.length > 0 ? 'true' : 'false');
+        this.setActiveResult(this.active_result);
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        switch (event.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                event.preventDefault();
+                if (!this.isOpen()) {
+                    this.updateResults();
+                }
+                if (this.results.length === 0) {
+                    return;
+                }
+                const step = event.key === 'ArrowDown' ? 1 : -1;
+                const current = this.active_result ?? (step > 0 ? -1 : this.results.length);
+                this.setActiveResult((current + step + this.results.length) % this.results.length);
+                break;
+            }
+            case 'Enter':
+                if (this.isOpen() && this.active_result != null) {
+                    event.preventDefault();
+                    this.select(this.results[this.active_result]);
+                }
+                break;
+            case 'Escape':
+                if (this.isOpen()) {
+                    event.preventDefault();
+                    this.close();
+                }
+                break;
+        }
+    }
+
+    private setActiveResult(result_index: number | null): void {
+        this.active_result = result_index;
+        const options = this.list.children;
+        for (let i = 0; i < options.length; i += 1) {
+            options[i].setAttribute('aria-selected', i === result_index ? 'true' : 'false');
+        }
+
+        const active_option = result_index == null ? null : (options[result_index] as HTMLLIElement | undefined);
+        if (active_option) {
+            this.input.setAttribute('aria-activedescendant', active_option.id);
+            active_option.scrollIntoView({ block: 'nearest' });
+        } else {
+            this.input.removeAttribute('aria-activedescendant');
+        }
+    }
+
+    private select(result: T): void {
+        this.selected_text = this.describe(result).name;
+        this.input.value = this.selected_text;
+        this.close();
+        for (const handler of this.select_handlers) {
+            handler(result);
+        }
+    }
+
+    private isOpen(): boolean {
+        return !this.list.classList.contains('hidden');
+    }
+
+    private close(): void {
+        this.list.classList.add('hidden');
+        this.input.setAttribute('aria-expanded', 'false');
+        this.input.removeAttribute('aria-activedescendant');
+        this.active_result = null;
+    }
+}
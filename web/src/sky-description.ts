@@ -0,0 +1,55 @@
+import { Constellation } from './index';
+import { Observer } from './overlays';
+import { solar_system_bodies } from './sky-format';
+import { SkyRenderer } from './sky-renderer';
+
+/**
+ * Join words into a readable list, e.g. `Venus, Mars and Jupiter`.
+ */
+const formatList = (items: string[]): string => {
+    if (items.length <= 1) {
+        return items.join('');
+    }
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+};
+
+/**
+ * Describe what's above the horizon for an observer, for people who can't see the canvas. This lists the Sun, Moon and
+ * planets that are up, followed by every constellation whose center is above the horizon.
+ * @param include_bodies If `false`, the Sun, Moon and planets are left out, since they aren't always drawn.
+ */
+export const describeSky = async (
+    sky_renderer: SkyRenderer,
+    constellations: Constellation[],
+    observer: Observer,
+    include_bodies: boolean
+): Promise<string> => {
+    const { latitude, longitude, timestamp } = observer;
+    const [body_altitudes, visible_constellations] = await Promise.all([
+        include_bodies
+            ? Promise.all(solar_system_bodies.map((_, body) => sky_renderer.call('getBodyAltitude', body, latitude, longitude, timestamp)))
+            : Promise.resolve([]),
+        sky_renderer.call('getConstellationsAboveHorizon', constellations.length, latitude, longitude, timestamp),
+    ]);
+
+    const sentences: string[] = [];
+    const visible_bodies = solar_system_bodies
+        .filter((_, body) => body_altitudes[body] > 0)
+        .map(name => (name === 'Sun' || name === 'Moon' ? `the ${name}` : name));
+    if (visible_bodies.length > 0) {
+        const verb = visible_bodies.length === 1 ? 'is' : 'are';
+        const bodies = formatList(visible_bodies);
+        sentences.push(`${bodies.charAt(0).toUpperCase()}${bodies.slice(1)} ${verb} above the horizon.`);
+    }
+
+    const constellation_names = visible_constellations.map(index => constellations[index].name);
+    if (constellation_names.length === 0) {
+        sentences.push('No constellations are above the horizon.');
+    } else if (constellation_names.length === 1) {
+        sentences.push(`1 constellation is above the horizon: ${constellation_names[0]}.`);
+    } else {
+        sentences.push(`${constellation_names.length} constellations are above the horizon: ${formatList(constellation_names)}.`);
+    }
+
+    return sentences.join(' ');
+};
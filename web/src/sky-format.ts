@@ -0,0 +1,186 @@
+/**
+ * Star and constellation coordinates are stored as 16-bit fixed point numbers with 12 fractional bits (see
+ * `night-math/fixed_point.zig`).
+ */
+export const fixedPointToFloat = (value: number): number => value / (1 << 12);
+
+const twoDigits = (value: number): string => (value < 10 ? `0${value}` : value.toString());
+
+/**
+ * Format a right ascension as hours, minutes and seconds, e.g. `5h 55m 10s`.
+ * @param radians The right ascension in radians.
+ */
+export const formatRightAscension = (radians: number): string => {
+    const normalized = ((radians % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+    const total_seconds = Math.round(normalized * (12 / Math.PI) * 3600) % (24 * 3600);
+    const hours = Math.floor(total_seconds / 3600);
+    const minutes = Math.floor((total_seconds % 3600) / 60);
+    const seconds = total_seconds % 60;
+    return `${hours}h ${twoDigits(minutes)}m ${twoDigits(seconds)}s`;
+};
+
+/**
+ * Format a declination (or any other angle in [-90, 90] degrees) as signed degrees, arcminutes and arcseconds,
+ * e.g. `+07° 24′ 25″`.
+ * @param radians The angle in radians.
+ */
+export const formatDeclination = (radians: number): string => {
+    const sign = radians < 0 ? '-' : '+';
+    const total_seconds = Math.round(Math.abs(radians) * (180 / Math.PI) * 3600);
+    const degrees = Math.floor(total_seconds / 3600);
+    const minutes = Math.floor((total_seconds % 3600) / 60);
+    const seconds = total_seconds % 60;
+    return `${sign}${twoDigits(degrees)}° ${twoDigits(minutes)}′ ${twoDigits(seconds)}″`;
+};
+
+/**
+ * Format an angle as decimal degrees, e.g. `123.4°`.
+ * @param radians The angle in radians.
+ */
+export const formatDegrees = (radians: number, fraction_digits = 1): string => `${(radians * (180 / Math.PI)).toFixed(fraction_digits)}°`;
+
+const compass_points = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+
+/**
+ * Get the closest of the 16 compass points to an azimuth, e.g. `NNE`.
+ * @param azimuth The azimuth in radians, measured from north towards east.
+ */
+export const compassPoint = (azimuth: number): string => {
+    const index = Math.round(azimuth / ((2 * Math.PI) / compass_points.length));
+    return compass_points[((index % compass_points.length) + compass_points.length) % compass_points.length];
+};
+
+/**
+ * The zodiac signs, in order of ecliptic longitude. Each sign covers 30 degrees, starting with Aries at the March equinox.
+ */
+export const zodiac_signs = [
+    'Aries',
+    'Taurus',
+    'Gemini',
+    'Cancer',
+    'Leo',
+    'Virgo',
+    'Libra',
+    'Scorpio',
+    'Sagittarius',
+    'Capricorn',
+    'Aquarius',
+    'Pisces',
+];
+
+/**
+ * Format an ecliptic longitude along with the zodiac sign that it falls in, e.g. `123.4° (Leo 3.4°)`.
+ * @param radians The ecliptic longitude in radians.
+ */
+export const formatEclipticLongitude = (radians: number): string => {
+    const degrees = ((((radians * 180) / Math.PI) % 360) + 360) % 360;
+    const sign_index = Math.floor(degrees / 30) % zodiac_signs.length;
+    return `${degrees.toFixed(1)}° (${zodiac_signs[sign_index]} ${(degrees - sign_index * 30).toFixed(1)}°)`;
+};
+
+/**
+ * The names of the Sun, Moon and planets, in the same order as `Body` in `night-math/solar_system.zig`.
+ */
+export const solar_system_bodies = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+
+/**
+ * The Bortle scale classes, from darkest to brightest, along with the faintest magnitude that can be seen with the naked
+ * eye in each.
+ */
+const bortle_classes = [
+    { limiting_magnitude: 7.6, description: 'Excellent dark site' },
+    { limiting_magnitude: 7.1, description: 'Truly dark site' },
+    { limiting_magnitude: 6.6, description: 'Rural sky' },
+    { limiting_magnitude: 6.1, description: 'Rural/suburban transition' },
+    { limiting_magnitude: 5.6, description: 'Suburban sky' },
+    { limiting_magnitude: 5.1, description: 'Bright suburban sky' },
+    { limiting_magnitude: 4.6, description: 'Suburban/urban transition' },
+    { limiting_magnitude: 4.1, description: 'City sky' },
+    { limiting_magnitude: -Infinity, description: 'Inner-city sky' },
+];
+
+/**
+ * Describe a limiting magnitude with the matching Bortle class, e.g. `5.8 (Bortle 5, Suburban sky)`.
+ */
+export const formatLimitingMagnitude = (limiting_magnitude: number): string => {
+    let class_index = 0;
+    while (limiting_magnitude < bortle_classes[class_index].limiting_magnitude) {
+        class_index += 1;
+    }
+    return `${limiting_magnitude.toFixed(1)} (Bortle ${class_index + 1}, ${bortle_classes[class_index].description})`;
+};
+
+// These match the constants used to convert magnitudes to brightness values in prepare-data/main.zig
+const dimmest_visible_magnitude = 18.6;
+const brightest_magnitude = -4.6;
+const brightness_offset = 0.15;
+
+/**
+ * Convert a star's brightness value back into an approximate visual magnitude. Brightness values are clamped when the star
+ * data is generated, so the very brightest stars will all come out around magnitude -1.8.
+ * @param brightness The star's brightness, in [0, 255].
+ */
+export const magnitudeFromBrightness = (brightness: number): number => {
+    const display_factor = brightness / 255 - brightness_offset;
+    return dimmest_visible_magnitude - display_factor * dimmest_visible_magnitude + brightest_magnitude;
+};
+
+/**
+ * Descriptions of each spectral type, in the same order as `SpectralType` in `night-math/Star.zig`.
+ */
+export const spectral_types = [
+    { name: 'O', color: 'Blue' },
+    { name: 'B', color: 'Blue-white' },
+    { name: 'A', color: 'White' },
+    { name: 'F', color: 'Yellow-white' },
+    { name: 'G', color: 'Yellow' },
+    { name: 'K', color: 'Orange' },
+    { name: 'M', color: 'Red' },
+];
+
+/**
+ * The Greek letters used for Bayer designations, in alphabetical order, along with the codes that the sky files use for them.
+ */
+const bayer_letters = [
+    { code: 'ALP', letter: 'α' },
+    { code: 'BET', letter: 'β' },
+    { code: 'GAM', letter: 'γ' },
+    { code: 'DEL', letter: 'δ' },
+    { code: 'EPS', letter: 'ε' },
+    { code: 'ZET', letter: 'ζ' },
+    { code: 'ETA', letter: 'η' },
+    { code: 'THE', letter: 'θ' },
+    { code: 'IOT', letter: 'ι' },
+    { code: 'KAP', letter: 'κ' },
+    { code: 'LAM', letter: 'λ' },
+    { code: 'MU', letter: 'μ' },
+    { code: 'NU', letter: 'ν' },
+    { code: 'XI', letter: 'ξ' },
+    { code: 'OMI', letter: 'ο' },
+    { code: 'PI', letter: 'π' },
+    { code: 'RHO', letter: 'ρ' },
+    { code: 'SIG', letter: 'σ' },
+    { code: 'TAU', letter: 'τ' },
+    { code: 'UPS', letter: 'υ' },
+    { code: 'PHI', letter: 'φ' },
+    { code: 'CHI', letter: 'χ' },
+    { code: 'PSI', letter: 'ψ' },
+    { code: 'OME', letter: 'ω' },
+];
+
+/**
+ * Format the stars of a constellation as their Bayer letters in Greek alphabetical order, e.g. `α, β, γ`. Codes that aren't
+ * Greek letters are kept as they are, after the Greek letters.
+ * @param codes The star codes from the sky files, such as `ALP`.
+ */
+export const formatBayerLetters = (codes: string[]): string => {
+    const letterIndex = (code: string): number => {
+        const index = bayer_letters.findIndex(letter => letter.code === code);
+        return index < 0 ? bayer_letters.length : index;
+    };
+    return codes
+        .slice()
+        .sort((a, b) => letterIndex(a) - letterIndex(b))
+        .map(code => bayer_letters[letterIndex(code)]?.letter ?? code)
+        .join(', ');
+};
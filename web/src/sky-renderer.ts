@@ -0,0 +1,241 @@
+import { createRenderBackend, RenderBackend, RenderBackendType } from './render-backend';
+import { RenderCore } from './render-core';
+import { Observer } from './overlays';
+import {
+    ChartGeometry,
+    RenderRequest,
+    RenderResult,
+    RenderWorkerRequest,
+    RenderWorkerResponse,
+    RenderWorkerResults,
+    WasmArgs,
+    WasmMethod,
+    WasmResult,
+} from './render-protocol';
+import { Renderer } from './renderer';
+import { instantiateWasmInterface, WasmInterface } from './wasm/wasm-interface';
+
+/**
+ * Draws the sky and answers questions about it (what's under the cursor, where a constellation is, etc.). Depending on
+ * what the browser supports this either happens in a worker or on the main thread, so every result is asynchronous.
+ */
+export interface SkyRenderer {
+    /**
+     * Draw a frame. If another frame is requested while this one is still being drawn, only the most recent request is
+     * drawn next, and every request that was skipped resolves with its result.
+     */
+    render(request: RenderRequest): Promise<RenderResult>;
+    /**
+     * Call a `WasmInterface` method with the state of the most recently drawn frame.
+     */
+    call<K extends WasmMethod>(method: K, ...args: WasmArgs<K>): Promise<WasmResult<K>>;
+    /**
+     * Draw the most recently rendered view as a square PNG image.
+     * @param size The width and height of the image, in pixels.
+     */
+    exportImage(observer: Observer, size: number): Promise<Blob>;
+    /**
+     * Draw the most recently rendered view as a square bitmap, for recording videos.
+     * @param size The width and height of the bitmap, in pixels.
+     */
+    exportFrame(observer: Observer, size: number): Promise<ImageBitmap>;
+    /**
+     * Get the projected geometry of the most recently rendered view, for drawing it as a chart.
+     * @param constellation_count The number of constellations to find label positions for.
+     */
+    exportChart(observer: Observer, constellation_count: number): Promise<ChartGeometry>;
+}
+
+/**
+ * Renders on the main thread, for browsers that can't transfer a canvas to a worker.
+ */
+class LocalSkyRenderer implements SkyRenderer {
+    private core: RenderCore;
+
+    constructor(private wasm_interface: WasmInterface, renderer: Renderer, backend: RenderBackend) {
+        this.core = new RenderCore(wasm_interface, renderer.context, backend, renderer.getCanvasSettings().toExtern());
+    }
+
+    render(request: RenderRequest): Promise<RenderResult> {
+        return Promise.resolve(this.core.render(request));
+    }
+
+    call<K extends WasmMethod>(method: K, ...args: WasmArgs<K>): Promise<WasmResult<K>> {
+        const wasm_method = this.wasm_interface[method] as (...args: unknown[]) => WasmResult<K>;
+        return Promise.resolve(wasm_method.apply(this.wasm_interface, args));
+    }
+
+    exportImage(observer: Observer, size: number): Promise<Blob> {
+        return this.core.exportImage(observer, size);
+    }
+
+    exportFrame(observer: Observer, size: number): Promise<ImageBitmap> {
+        return this.core.exportFrame(observer, size);
+    }
+
+    exportChart(observer: Observer, constellation_count: number): Promise<ChartGeometry> {
+        return Promise.resolve(this.core.exportChart(observer, constellation_count));
+    }
+}
+
+type PendingResponse<T> = {
+    resolve: (result: T) => void;
+    reject: (error: Error) => void;
+};
+
+/**
+ * Renders in a dedicated worker that owns both the wasm module and an `OffscreenCanvas`.
+ */
+class WorkerSkyRenderer implements SkyRenderer {
+    private next_id = 0;
+    private pending_responses = new Map<number, PendingResponse<unknown>>();
+
+    private is_rendering = false;
+    /** The latest frame that was requested while another frame was being drawn. */
+    private queued_render: { request: RenderRequest; waiting: PendingResponse<RenderResult>[] } | null = null;
+
+    constructor(private worker: Worker) {
+        this.worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => this.handleResponse(event.data);
+        // The worker script failing to load or throwing outside of a request would otherwise leave every request waiting
+        this.worker.onerror = event => this.rejectAll(new Error(event.message || 'The render worker stopped working'));
+    }
+
+    /**
+     * Load the wasm module in the worker, then send it the canvas and initial settings. The canvas is only handed over
+     * once the module has loaded, so that if the worker can't start, the canvas can still be drawn to from the main thread.
+     */
+    async initialize(renderer: Renderer, backend: RenderBackendType): Promise<void> {
+        await this.send({ type: 'loadWasm', id: this.next_id++ });
+        const canvas = renderer.transferToOffscreen();
+        const settings = renderer.getCanvasSettings().toExtern();
+        await this.send({ type: 'initialize', id: this.next_id++, canvas, settings, backend }, [canvas]);
+    }
+
+    /**
+     * Stop the worker. Anything that's still waiting on it is rejected.
+     */
+    terminate(): void {
+        this.worker.terminate();
+        this.rejectAll(new Error('The render worker was stopped'));
+    }
+
+    render(request: RenderRequest): Promise<RenderResult> {
+        if (!this.is_rendering) {
+            return this.sendRender(request);
+        }
+
+        return new Promise((resolve, reject) => {
+            if (this.queued_render == null) {
+                this.queued_render = { request, waiting: [{ resolve, reject }] };
+                return;
+            }
+            // Settings are only sent when they change, so a skipped request's settings still have to reach the worker
+            const settings = request.settings ?? this.queued_render.request.settings;
+            this.queued_render.request = { ...request, settings };
+            this.queued_render.waiting.push({ resolve, reject });
+        });
+    }
+
+    call<K extends WasmMethod>(method: K, ...args: WasmArgs<K>): Promise<WasmResult<K>> {
+        return this.send({ type: 'call', id: this.next_id++, method, args }).then(result => result as WasmResult<K>);
+    }
+
+    exportImage(observer: Observer, size: number): Promise<Blob> {
+        return this.send({ type: 'exportImage', id: this.next_id++, observer, size });
+    }
+
+    exportFrame(observer: Observer, size: number): Promise<ImageBitmap> {
+        return this.send({ type: 'exportFrame', id: this.next_id++, observer, size });
+    }
+
+    exportChart(observer: Observer, constellation_count: number): Promise<ChartGeometry> {
+        return this.send({ type: 'exportChart', id: this.next_id++, observer, constellation_count });
+    }
+
+    private sendRender(request: RenderRequest): Promise<RenderResult> {
+        this.is_rendering = true;
+        const result = this.send({ type: 'render', id: this.next_id++, request });
+        const renderNext = () => {
+            this.is_rendering = false;
+            const queued = this.queued_render;
+            if (queued != null) {
+                this.queued_render = null;
+                this.sendRender(queued.request).then(
+                    next_result => queued.waiting.forEach(waiting => waiting.resolve(next_result)),
+                    error => queued.waiting.forEach(waiting => waiting.reject(error))
+                );
+            }
+        };
+        result.then(renderNext, renderNext);
+        return result;
+    }
+
+    private send<R extends RenderWorkerRequest>(message: R, transfer: Transferable[] = []): Promise<RenderWorkerResults[R['type']]> {
+        return new Promise((resolve, reject) => {
+            // The worker answers each type of request with the matching result, so the response can be trusted here
+            this.pending_responses.set(message.id, { resolve: result => resolve(result as RenderWorkerResults[R['type']]), reject });
+            this.worker.postMessage(message, transfer);
+        });
+    }
+
+    private rejectAll(error: Error): void {
+        const pending = Array.from(this.pending_responses.values());
+        this.pending_responses.clear();
+        pending.forEach(response => response.reject(error));
+    }
+
+    private handleResponse(response: RenderWorkerResponse): void {
+        const pending = this.pending_responses.get(response.id);
+        if (pending == null) {
+            return;
+        }
+        this.pending_responses.delete(response.id);
+        if ('error' in response) {
+            pending.reject(new Error(response.error));
+        } else {
+            pending.resolve(response.result);
+        }
+    }
+}
+
+/**
+ * Whether the sky can be drawn from a worker, which needs the browser to be able to hand a canvas over to one.
+ */
+const supportsOffscreenRendering = (): boolean =>
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function';
+
+/**
+ * Load the wasm module and set up rendering for the renderer's canvas, in a worker if possible.
+ * @param backend How frames should be drawn onto the canvas.
+ */
+export const createSkyRenderer = async (renderer: Renderer, backend: RenderBackendType): Promise<SkyRenderer> => {
+    if (supportsOffscreenRendering()) {
+        const sky_renderer = new WorkerSkyRenderer(new Worker('render-worker.js'));
+        try {
+            await sky_renderer.initialize(renderer, backend);
+        } catch (error) {
+            sky_renderer.terminate();
+            throw error;
+        }
+        return sky_renderer;
+    }
+
+    const wasm_interface = await instantiateWasmInterface('night-math.wasm');
+    return new LocalSkyRenderer(wasm_interface, renderer, createRenderBackend(backend));
+};
+
+/**
+ * Draw from the pixel buffer on the main thread. This is the most widely supported way to draw the sky, for when the
+ * renderer picked by `createSkyRenderer` couldn't be started. A worker is only given the canvas once it has loaded the
+ * wasm module, so this works whenever the worker itself couldn't start. If it failed after that, the canvas belongs to
+ * the worker and this rejects.
+ */
+export const createFallbackSkyRenderer = async (renderer: Renderer): Promise<SkyRenderer> => {
+    if (renderer.is_transferred) {
+        throw new Error('The canvas was already handed over to the render worker, so it cannot be drawn to from the page');
+    }
+    const wasm_interface = await instantiateWasmInterface('night-math.wasm');
+    return new LocalSkyRenderer(wasm_interface, renderer, createRenderBackend(RenderBackendType.PixelBuffer));
+};
@@ -0,0 +1,204 @@
+import { Observer } from './overlays';
+import { SkyRenderer } from './sky-renderer';
+import { createZip, ZipEntry } from './zip';
+
+export enum RecordingFormat {
+    /** A video, encoded by the browser with `MediaRecorder`. */
+    WebM = 'webm',
+    /** Every frame as a PNG image, bundled into a zip file. */
+    PngSequence = 'zip',
+}
+
+export type RecordingOptions = {
+    format: RecordingFormat;
+    /** The width and height of each frame, in pixels. */
+    size: number;
+    duration_seconds: number;
+    frame_rate: number;
+    /** How much simulated time passes between frames. This is negative for timelapses that run backwards. */
+    frame_step_millis: number;
+};
+
+export type Recording = {
+    blob: Blob;
+    file_extension: string;
+    /** The number of frames that were recorded, which is less than requested if the recording was stopped early. */
+    frame_count: number;
+};
+
+/**
+ * Turns the frames of a recording into a single file.
+ */
+interface FrameEncoder {
+    readonly file_extension: string;
+    addFrame(observer: Observer): Promise<void>;
+    finish(): Promise<Blob>;
+}
+
+const video_mime_types = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const getVideoMimeType = (): string | null => {
+    if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') {
+        return null;
+    }
+    for (const mime_type of video_mime_types) {
+        if (MediaRecorder.isTypeSupported(mime_type)) {
+            return mime_type;
+        }
+    }
+    return null;
+};
+
+/**
+ * Whether the browser can record WebM videos. If it can't, recordings fall back to PNG sequences.
+ */
+export const supportsVideoRecording = (): boolean => getVideoMimeType() != null;
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => window.setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Records frames into a WebM video. `MediaRecorder` timestamps each frame with the wall-clock time that it was captured,
+ * so frames are held on the recording canvas for as long as they should last in the video. If frames take longer than
+ * that to draw, the video plays back slower than the requested frame rate.
+ */
+class WebMEncoder implements FrameEncoder {
+    readonly file_extension = 'webm';
+
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private track: CanvasCaptureMediaStreamTrack;
+    private recorder: MediaRecorder;
+    private chunks: Blob[] = [];
+    private next_frame_time: number | null = null;
+
+    constructor(private sky_renderer: SkyRenderer, private size: number, private frame_rate: number, private mime_type: string) {
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = size;
+        this.canvas.height = size;
+        this.context = this.canvas.getContext('2d')!;
+        // The sky is drawn with a transparent background, which video can't represent
+        this.context.fillStyle = 'black';
+        this.context.fillRect(0, 0, size, size);
+
+        // A frame rate of 0 means that frames are only captured when they're requested
+        const stream = this.canvas.captureStream(0);
+        this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+        this.recorder = new MediaRecorder(stream, { mimeType: mime_type });
+        this.recorder.ondataavailable = event => {
+            if (event.data.size > 0) {
+                this.chunks.push(event.data);
+            }
+        };
+        this.recorder.start();
+    }
+
+    async addFrame(observer: Observer): Promise<void> {
+        const frame = await this.sky_renderer.exportFrame(observer, this.size);
+        if (this.next_frame_time != null) {
+            await wait(this.next_frame_time - performance.now());
+        }
+
+        this.context.fillRect(0, 0, this.size, this.size);
+        this.context.drawImage(frame, 0, 0);
+        frame.close();
+        this.track.requestFrame();
+        this.next_frame_time = performance.now() + 1000 / this.frame_rate;
+    }
+
+    async finish(): Promise<Blob> {
+        // Let the last frame last as long as the others
+        if (this.next_frame_time != null) {
+            await wait(this.next_frame_time - performance.now());
+        }
+        return new Promise(resolve => {
+            this.recorder.onstop = () => resolve(new Blob(this.chunks, { type: this.mime_type }));
+            this.recorder.stop();
+            this.track.stop();
+        });
+    }
+}
+
+/**
+ * Records each frame as a PNG, and bundles them into a zip file once the recording is done.
+ */
+class PngSequenceEncoder implements FrameEncoder {
+    readonly file_extension = 'zip';
+
+    private entries: ZipEntry[] = [];
+
+    constructor(private sky_renderer: SkyRenderer, private size: number) {}
+
+    async addFrame(observer: Observer): Promise<void> {
+        const image = await this.sky_renderer.exportImage(observer, this.size);
+        const frame_number = (this.entries.length + 1).toString();
+        // Pad the frame numbers so that the files sort in order
+        const padded_number = `${'00000'.slice(frame_number.length)}${frame_number}`;
+        this.entries.push({ name: `frame-${padded_number}.png`, data: new Uint8Array(await image.arrayBuffer()) });
+    }
+
+    finish(): Promise<Blob> {
+        return Promise.resolve(createZip(this.entries));
+    }
+}
+
+/**
+ * Records a timelapse, starting from a given date and moving a fixed amount of simulated time each frame. Frames are
+ * drawn at the requested resolution separately from the visible canvas, so the recording doesn't depend on the size of
+ * the window or how fast the display refreshes.
+ */
+export class TimelapseRecorder {
+    private is_recording = false;
+    private stop_requested = false;
+
+    /**
+     * @param getObserver Get where the sky should be viewed from at a given date.
+     */
+    constructor(private sky_renderer: SkyRenderer, private getObserver: (date: Date) => Observer) {}
+
+    get recording(): boolean {
+        return this.is_recording;
+    }
+
+    /**
+     * Record a timelapse. Only one recording can run at a time.
+     * @param start The date of the first frame.
+     * @param onFrame Called after each frame is recorded, with the frame's date and how much of the recording is done (from 0 to 1).
+     * @returns The recording, or `null` if it was stopped before any frames were recorded.
+     */
+    async record(start: Date, options: RecordingOptions, onFrame: (date: Date, progress: number) => void): Promise<Recording | null> {
+        if (this.is_recording) {
+            throw new Error('A timelapse is already being recorded');
+        }
+        this.is_recording = true;
+        this.stop_requested = false;
+
+        const video_mime_type = options.format === RecordingFormat.WebM ? getVideoMimeType() : null;
+        const encoder: FrameEncoder =
+            video_mime_type != null
+                ? new WebMEncoder(this.sky_renderer, options.size, options.frame_rate, video_mime_type)
+                : new PngSequenceEncoder(this.sky_renderer, options.size);
+
+        const total_frames = Math.max(1, Math.round(options.duration_seconds * options.frame_rate));
+        let frame_count = 0;
+        try {
+            while (frame_count < total_frames && !this.stop_requested) {
+                const date = new Date(start.valueOf() + frame_count * options.frame_step_millis);
+                await encoder.addFrame(this.getObserver(date));
+                frame_count += 1;
+                onFrame(date, frame_count / total_frames);
+            }
+
+            const blob = await encoder.finish();
+            return frame_count > 0 ? { blob, file_extension: encoder.file_extension, frame_count } : null;
+        } finally {
+            this.is_recording = false;
+        }
+    }
+
+    /**
+     * Stop recording after the current frame. Everything that's been recorded so far is still saved.
+     */
+    stop(): void {
+        this.stop_requested = true;
+    }
+}
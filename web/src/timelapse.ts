@@ -0,0 +1,228 @@
+type Fn<T> = (_: T) => void;
+
+/**
+ * The speeds that a timelapse can run at. Rates that are described "per frame" assume a 60fps display, but the actual
+ * amount of time that passes is always based on how much wall-clock time has elapsed, so the speed is the same
+ * regardless of the monitor's refresh rate.
+ */
+export enum TimelapseRate {
+    RealTime,
+    MinutePerFrame,
+    SiderealDayPerFrame,
+    YearPerFrame,
+}
+
+type RateInfo = {
+    label: string;
+    /** How much simulated time passes for each second of wall-clock time. */
+    millis_per_second: number;
+    /** How much simulated time a single step moves forward or backward. */
+    step_millis: number;
+};
+
+const reference_frames_per_second = 60;
+const minute_millis = 60 * 1000;
+/** How long the sky takes to turn once around the celestial poles. */
+export const sidereal_day_millis = 86_164_090.5;
+const year_millis = 365.25 * 86_400_000;
+
+export const timelapse_rates: { [R in TimelapseRate]: RateInfo } = {
+    [TimelapseRate.RealTime]: {
+        label: 'Real Time',
+        millis_per_second: 1000,
+        step_millis: minute_millis,
+    },
+    [TimelapseRate.MinutePerFrame]: {
+        label: '1 Minute / Frame',
+        millis_per_second: minute_millis * reference_frames_per_second,
+        step_millis: minute_millis,
+    },
+    [TimelapseRate.SiderealDayPerFrame]: {
+        label: '1 Sidereal Day / Frame',
+        millis_per_second: sidereal_day_millis * reference_frames_per_second,
+        step_millis: sidereal_day_millis,
+    },
+    [TimelapseRate.YearPerFrame]: {
+        label: '1 Year / Frame',
+        millis_per_second: year_millis * reference_frames_per_second,
+        step_millis: year_millis,
+    },
+};
+
+/**
+ * If the page is hidden, animation frames stop firing. Cap the amount of elapsed time used for a single frame so that
+ * coming back to the page doesn't make the timelapse leap forward.
+ */
+const max_frame_elapsed_ms = 250;
+
+interface Seek {
+    from: number;
+    to: number;
+    start_time: number | null;
+    duration_ms: number;
+}
+
+/**
+ * Drives the simulated date forward (or backward) over time. The timelapse doesn't own the date - it reads the current
+ * date each frame and reports the next one, so any changes that the user makes in the meantime are picked up.
+ */
+export class Timelapse {
+    private _rate = TimelapseRate.MinutePerFrame;
+    private _reversed = false;
+    private _is_playing = false;
+
+    private animation_frame: number | null = null;
+    private last_frame_time: number | null = null;
+
+    /**
+     * An in-progress animation towards a specific date. Seeking takes priority over playback.
+     */
+    private seek: Seek | null = null;
+
+    private frame_handlers: Fn<Date>[] = [];
+    private state_change_handlers: Fn<Timelapse>[] = [];
+
+    /**
+     * @param getDate Get the date that the next frame should start from.
+     */
+    constructor(private getDate: () => Date) {}
+
+    /**
+     * Listen for new dates produced by the timelapse.
+     */
+    onFrame(handler: Fn<Date>): void {
+        this.frame_handlers.push(handler);
+    }
+
+    /**
+     * Listen for the timelapse being played, paused, reversed or changing speed.
+     */
+    onStateChange(handler: Fn<Timelapse>): void {
+        this.state_change_handlers.push(handler);
+    }
+
+    play(): void {
+        if (this._is_playing) return;
+        this._is_playing = true;
+        this.seek = null;
+        this.requestFrame();
+        this.notifyStateChange();
+    }
+
+    pause(): void {
+        if (!this._is_playing) return;
+        this._is_playing = false;
+        this.notifyStateChange();
+    }
+
+    toggle(): void {
+        if (this._is_playing) {
+            this.pause();
+        } else {
+            this.play();
+        }
+    }
+
+    /**
+     * Move the date by a single step of the current rate. Steps respect the playback direction, and pass `-1` to step
+     * the opposite way.
+     */
+    step(steps = 1): void {
+        const direction = this._reversed ? -1 : 1;
+        const delta = steps * direction * timelapse_rates[this._rate].step_millis;
+        this.emitFrame(new Date(this.getDate().valueOf() + delta));
+    }
+
+    /**
+     * Smoothly animate from the current date to `target`. This pauses playback.
+     * @param target The date to end on.
+     * @param duration_ms How long the animation should take.
+     */
+    seekTo(target: Date, duration_ms = 1200): void {
+        this.pause();
+        this.seek = {
+            from: this.getDate().valueOf(),
+            to: target.valueOf(),
+            start_time: null,
+            duration_ms,
+        };
+        this.requestFrame();
+    }
+
+    get rate(): TimelapseRate {
+        return this._rate;
+    }
+
+    set rate(value: TimelapseRate) {
+        this._rate = value;
+        this.notifyStateChange();
+    }
+
+    /**
+     * When `true`, the timelapse runs backwards in time.
+     */
+    get reversed(): boolean {
+        return this._reversed;
+    }
+
+    set reversed(value: boolean) {
+        this._reversed = value;
+        this.notifyStateChange();
+    }
+
+    get is_playing(): boolean {
+        return this._is_playing;
+    }
+
+    private requestFrame(): void {
+        if (this.animation_frame != null) return;
+        this.last_frame_time = null;
+        this.animation_frame = window.requestAnimationFrame(time => this.runFrame(time));
+    }
+
+    private runFrame(time: number): void {
+        this.animation_frame = null;
+
+        if (this.seek != null) {
+            this.runSeekFrame(this.seek, time);
+        } else if (this._is_playing && this.last_frame_time != null) {
+            // The first frame after starting only records the time, since there's no elapsed time to measure yet
+            const elapsed_ms = Math.min(time - this.last_frame_time, max_frame_elapsed_ms);
+            const direction = this._reversed ? -1 : 1;
+            const delta = direction * timelapse_rates[this._rate].millis_per_second * (elapsed_ms / 1000);
+            this.emitFrame(new Date(this.getDate().valueOf() + delta));
+        }
+
+        if (this.seek != null || this._is_playing) {
+            this.last_frame_time = time;
+            this.animation_frame = window.requestAnimationFrame(next_time => this.runFrame(next_time));
+        }
+    }
+
+    private runSeekFrame(seek: Seek, time: number): void {
+        if (seek.start_time == null) {
+            seek.start_time = time;
+        }
+
+        const progress = Math.min((time - seek.start_time) / seek.duration_ms, 1);
+        // Ease in and out so that the sky doesn't jerk into motion
+        const eased = progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+        this.emitFrame(new Date(seek.from + (seek.to - seek.from) * eased));
+
+        if (progress >= 1) {
+            this.seek = null;
+        }
+    }
+
+    private emitFrame(date: Date): void {
+        for (const handler of this.frame_handlers) {
+            handler(date);
+        }
+    }
+
+    private notifyStateChange(): void {
+        for (const handler of this.state_change_handlers) {
+            handler(this);
+        }
+    }
+}
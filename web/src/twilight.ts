@@ -0,0 +1,72 @@
+/**
+ * How dark the sky is, based on how far the Sun is below the horizon.
+ */
+export enum TwilightPhase {
+    Day,
+    Civil,
+    Nautical,
+    Astronomical,
+    Night,
+}
+
+export const twilight_phase_labels: { [P in TwilightPhase]: string } = {
+    [TwilightPhase.Day]: 'Daytime',
+    [TwilightPhase.Civil]: 'Civil Twilight',
+    [TwilightPhase.Nautical]: 'Nautical Twilight',
+    [TwilightPhase.Astronomical]: 'Astronomical Twilight',
+    [TwilightPhase.Night]: 'Night',
+};
+
+const deg_to_rad = Math.PI / 180;
+
+/**
+ * Get the twilight phase for a Sun altitude. Each phase ends when the Sun is another 6 degrees below the horizon.
+ * @param sun_altitude The altitude of the Sun, in radians.
+ */
+export const getTwilightPhase = (sun_altitude: number): TwilightPhase => {
+    const degrees = sun_altitude / deg_to_rad;
+    if (degrees > -0.833) return TwilightPhase.Day;
+    if (degrees > -6) return TwilightPhase.Civil;
+    if (degrees > -12) return TwilightPhase.Nautical;
+    if (degrees > -18) return TwilightPhase.Astronomical;
+    return TwilightPhase.Night;
+};
+
+type RGB = [number, number, number];
+
+/**
+ * Sky colors at specific Sun altitudes (in degrees), from brightest to darkest. The darkest color matches the default
+ * backdrop color in `main.css`.
+ */
+const sky_colors: { altitude: number; color: RGB }[] = [
+    { altitude: 6, color: [110, 160, 215] },
+    { altitude: 0, color: [72, 110, 168] },
+    { altitude: -6, color: [30, 52, 98] },
+    { altitude: -12, color: [8, 22, 54] },
+    { altitude: -18, color: [0, 9, 29] },
+];
+
+/**
+ * Get the color of the sky for a Sun altitude, as a CSS color.
+ * @param sun_altitude The altitude of the Sun, in radians.
+ */
+export const getSkyColor = (sun_altitude: number): string => {
+    const degrees = sun_altitude / deg_to_rad;
+    const toCss = (color: RGB) => `rgb(${color.map(c => Math.round(c)).join(', ')})`;
+
+    if (degrees >= sky_colors[0].altitude) {
+        return toCss(sky_colors[0].color);
+    }
+
+    for (let i = 1; i < sky_colors.length; i += 1) {
+        const brighter = sky_colors[i - 1];
+        const darker = sky_colors[i];
+        if (degrees >= darker.altitude) {
+            const progress = (brighter.altitude - degrees) / (brighter.altitude - darker.altitude);
+            const color = brighter.color.map((c, index) => c + progress * (darker.color[index] - c)) as RGB;
+            return toCss(color);
+        }
+    }
+
+    return toCss(sky_colors[sky_colors.length - 1].color);
+};
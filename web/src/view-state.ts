@@ -0,0 +1,310 @@
+import { getUtcOffset } from './place-search';
+import { Renderer } from './renderer';
+
+/**
+ * Everything needed to reproduce what the user is currently looking at. This is the state that gets written to the page
+ * URL so that a view can be shared with a link.
+ */
+export type ViewState = {
+    date: Date;
+    /** The UTC offset, in minutes, that the date is displayed in. `null` means the viewer's local timezone. */
+    utc_offset: number | null;
+    /**
+     * The IANA timezone that the date is displayed in, such as `Europe/Paris`, or `null` if it's only displayed with
+     * `utc_offset`. While this is set, `utc_offset` is the timezone's offset at `date`.
+     */
+    time_zone: string | null;
+    /** The observer latitude, in radians. */
+    latitude: number;
+    /** The observer longitude, in radians. */
+    longitude: number;
+    zoom_factor: number;
+    /** Stars fainter than this magnitude aren't drawn. */
+    limiting_magnitude: number;
+    draw_north_up: boolean;
+    draw_asterisms: boolean;
+    draw_constellation_grid: boolean;
+    zodiac_only: boolean;
+    draw_horizon_grid: boolean;
+    draw_equatorial_grid: boolean;
+    draw_ecliptic: boolean;
+    draw_zodiac_signs: boolean;
+    draw_solar_system: boolean;
+    simulate_twilight: boolean;
+    /** The index of the constellation selected in the constellation list, or `null` if none is selected. */
+    selected_constellation: number | null;
+};
+
+/**
+ * Every query parameter that's written by `viewStateToQuery`. Any other parameter in the URL, such as `backend`, belongs to
+ * the page itself and is left alone as the view changes.
+ */
+const view_params = [
+    'date',
+    'tz',
+    'zone',
+    'lat',
+    'long',
+    'zoom',
+    'mag',
+    'north',
+    'asterisms',
+    'grid',
+    'zodiac',
+    'horizon',
+    'equatorial',
+    'ecliptic',
+    'signs',
+    'planets',
+    'twilight',
+    'constellation',
+];
+
+const rad_to_deg = 180 / Math.PI;
+const deg_to_rad = Math.PI / 180;
+
+/**
+ * Convert a view into a URL query string. Latitude and longitude are written in degrees so that links stay readable.
+ */
+export const viewStateToQuery = (state: ViewState): string => {
+    const params = new URLSearchParams();
+    const longitude = state.longitude > Math.PI ? state.longitude - 2 * Math.PI : state.longitude;
+
+    params.set('date', state.date.toISOString());
+    if (state.utc_offset != null) {
+        params.set('tz', state.utc_offset.toString());
+    }
+    if (state.time_zone != null) {
+        params.set('zone', state.time_zone);
+    }
+    params.set('lat', (state.latitude * rad_to_deg).toFixed(4));
+    params.set('long', (longitude * rad_to_deg).toFixed(4));
+    params.set('zoom', state.zoom_factor.toFixed(3));
+    params.set('mag', state.limiting_magnitude.toFixed(1));
+    params.set('north', state.draw_north_up ? '1' : '0');
+    params.set('asterisms', state.draw_asterisms ? '1' : '0');
+    params.set('grid', state.draw_constellation_grid ? '1' : '0');
+    params.set('zodiac', state.zodiac_only ? '1' : '0');
+    params.set('horizon', state.draw_horizon_grid ? '1' : '0');
+    params.set('equatorial', state.draw_equatorial_grid ? '1' : '0');
+    params.set('ecliptic', state.draw_ecliptic ? '1' : '0');
+    params.set('signs', state.draw_zodiac_signs ? '1' : '0');
+    params.set('planets', state.draw_solar_system ? '1' : '0');
+    params.set('twilight', state.simulate_twilight ? '1' : '0');
+    if (state.selected_constellation != null) {
+        params.set('constellation', state.selected_constellation.toString());
+    }
+
+    return params.toString();
+};
+
+/**
+ * Read a view from a URL query string. Parameters that are missing or can't be parsed are left out of the result, so
+ * that the caller can decide what the defaults should be.
+ */
+export const viewStateFromQuery = (query: string): Partial<ViewState> => {
+    const params = new URLSearchParams(query);
+    const state: Partial<ViewState> = {};
+
+    const readNumber = (key: string): number | null => {
+        const value = params.get(key);
+        if (value == null || value.trim() === '') {
+            return null;
+        }
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    };
+
+    const readFlag = (key: string): boolean | null => {
+        const value = params.get(key);
+        if (value === '1' || value === 'true') return true;
+        if (value === '0' || value === 'false') return false;
+        return null;
+    };
+
+    const date_param = params.get('date');
+    if (date_param != null) {
+        const date = new Date(date_param);
+        if (!isNaN(date.valueOf())) {
+            state.date = date;
+        }
+    }
+
+    // Without an explicit offset the date is shown in the viewer's own timezone
+    const utc_offset = readNumber('tz');
+    state.utc_offset = utc_offset != null && Number.isInteger(utc_offset) && Math.abs(utc_offset) <= 14 * 60 ? utc_offset : null;
+
+    // Older links only have the offset, so the timezone is left out unless it's given
+    const time_zone = params.get('zone');
+    if (time_zone != null && time_zone.trim() !== '') {
+        state.time_zone = time_zone;
+    }
+
+    const latitude = readNumber('lat');
+    if (latitude != null && latitude >= -90 && latitude <= 90) {
+        state.latitude = latitude * deg_to_rad;
+    }
+
+    const longitude = readNumber('long');
+    if (longitude != null && longitude >= -180 && longitude <= 360) {
+        state.longitude = longitude * deg_to_rad;
+    }
+
+    const zoom_factor = readNumber('zoom');
+    if (zoom_factor != null && zoom_factor >= 1 && zoom_factor <= Renderer.MaxZoomFactor) {
+        state.zoom_factor = zoom_factor;
+    }
+
+    const limiting_magnitude = readNumber('mag');
+    if (limiting_magnitude != null && limiting_magnitude >= -2 && limiting_magnitude <= 10) {
+        state.limiting_magnitude = limiting_magnitude;
+    }
+
+    const draw_north_up = readFlag('north');
+    if (draw_north_up != null) state.draw_north_up = draw_north_up;
+
+    const draw_asterisms = readFlag('asterisms');
+    if (draw_asterisms != null) state.draw_asterisms = draw_asterisms;
+
+    const draw_constellation_grid = readFlag('grid');
+    if (draw_constellation_grid != null) state.draw_constellation_grid = draw_constellation_grid;
+
+    const zodiac_only = readFlag('zodiac');
+    if (zodiac_only != null) state.zodiac_only = zodiac_only;
+
+    const draw_horizon_grid = readFlag('horizon');
+    if (draw_horizon_grid != null) state.draw_horizon_grid = draw_horizon_grid;
+
+    const draw_equatorial_grid = readFlag('equatorial');
+    if (draw_equatorial_grid != null) state.draw_equatorial_grid = draw_equatorial_grid;
+
+    const draw_ecliptic = readFlag('ecliptic');
+    if (draw_ecliptic != null) state.draw_ecliptic = draw_ecliptic;
+
+    const draw_zodiac_signs = readFlag('signs');
+    if (draw_zodiac_signs != null) state.draw_zodiac_signs = draw_zodiac_signs;
+
+    const draw_solar_system = readFlag('planets');
+    if (draw_solar_system != null) state.draw_solar_system = draw_solar_system;
+
+    const simulate_twilight = readFlag('twilight');
+    if (simulate_twilight != null) state.simulate_twilight = simulate_twilight;
+
+    const selected_constellation = readNumber('constellation');
+    if (selected_constellation != null && Number.isInteger(selected_constellation) && selected_constellation >= 0) {
+        state.selected_constellation = selected_constellation;
+    }
+
+    return state;
+};
+
+/**
+ * Work out which IANA timezone to follow after restoring a view, given the one that's followed now. A view that doesn't name a
+ * timezone keeps following the current one, as long as its offset is the one that the timezone has at `date`.
+ * @returns The timezone to follow, or `null` if the view's `utc_offset` should be used instead.
+ */
+export const getViewTimeZone = (state: Partial<ViewState>, time_zone: string | null, date: Date): string | null => {
+    if (state.time_zone !== undefined) {
+        return state.time_zone != null && getUtcOffset(state.time_zone, date) != null ? state.time_zone : null;
+    }
+    if (time_zone == null || state.utc_offset === undefined) {
+        return time_zone;
+    }
+    return state.utc_offset === getUtcOffset(time_zone, date) ? time_zone : null;
+};
+
+/**
+ * Write a view into an existing URL query string. Parameters that describe the view are replaced (or removed, if the view
+ * doesn't set them), and every other parameter is kept as it is.
+ */
+export const mergeViewStateIntoQuery = (query: string, state: ViewState): string => {
+    const params = new URLSearchParams(query);
+    for (const key of view_params) {
+        params.delete(key);
+    }
+    new URLSearchParams(viewStateToQuery(state)).forEach((value, key) => params.set(key, value));
+    return params.toString();
+};
+
+/**
+ * Keeps the page URL in sync with the current view. Updates are throttled because the view can change on every animation
+ * frame (dragging, timelapses, etc.), and browsers limit how often the history can be modified.
+ *
+ * Most updates replace the current history entry. Call `markNewEntry` before a "discrete" change, such as picking a new
+ * date or location, and the next update will push a new entry instead. This is what allows back/forward navigation to
+ * replay earlier views.
+ */
+export class ViewHistory {
+    private pending_state: ViewState | null = null;
+    private pending_timeout: number | null = null;
+    private push_next = false;
+
+    constructor(private throttle_ms = 500) {}
+
+    /**
+     * Get the view encoded in the current URL.
+     */
+    read(): Partial<ViewState> {
+        return viewStateFromQuery(window.location.search);
+    }
+
+    /**
+     * Schedule a URL update for the given view.
+     */
+    update(state: ViewState): void {
+        this.pending_state = state;
+        if (this.pending_timeout == null) {
+            this.pending_timeout = window.setTimeout(() => this.flush(), this.throttle_ms);
+        }
+    }
+
+    /**
+     * Make the next update push a new history entry. Any update that's still waiting to be written is written to the
+     * current entry first, so that going back returns to the view as it was right before this change.
+     */
+    markNewEntry(): void {
+        this.flush();
+        this.push_next = true;
+    }
+
+    /**
+     * Listen for the user navigating back or forward through their history.
+     * @param handler The view encoded in the URL that the user navigated to will be passed to this function.
+     */
+    onNavigate(handler: (_: Partial<ViewState>) => void): void {
+        window.addEventListener('popstate', () => {
+            // Anything pending describes the view that the user just navigated away from
+            this.cancelPending();
+            this.push_next = false;
+            handler(this.read());
+        });
+    }
+
+    private flush(): void {
+        const state = this.pending_state;
+        this.cancelPending();
+        if (state == null) {
+            return;
+        }
+
+        const query = `?${mergeViewStateIntoQuery(window.location.search, state)}`;
+        if (query === window.location.search) {
+            return;
+        }
+
+        if (this.push_next) {
+            window.history.pushState(null, '', query);
+            this.push_next = false;
+        } else {
+            window.history.replaceState(null, '', query);
+        }
+    }
+
+    private cancelPending(): void {
+        if (this.pending_timeout != null) {
+            window.clearTimeout(this.pending_timeout);
+        }
+        this.pending_timeout = null;
+        this.pending_state = null;
+    }
+}
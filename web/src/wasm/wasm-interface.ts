@@ -1,5 +1,106 @@
 import * as wasm from './wasm_module';
 
+/**
+ * A star picked from the canvas. The position and brightness values are the raw `ExternStar` values, so the right ascension
+ * and declination are fixed-point numbers.
+ */
+export type StarInfo = wasm.ExternStar & {
+    /** The index of the star in the star data. */
+    index: number;
+};
+
+/**
+ * A position in the observer's local sky, in radians. Azimuth is measured from north towards east.
+ */
+export type HorizontalCoord = {
+    altitude: number;
+    azimuth: number;
+};
+
+/**
+ * A position on the celestial sphere, in radians.
+ */
+export type SkyCoord = {
+    right_ascension: number;
+    declination: number;
+};
+
+/**
+ * A point on the ecliptic, along with where the Sun is on the ecliptic at the same moment. Both longitudes are in radians.
+ */
+export type EclipticInfo = {
+    longitude: number;
+    sun_longitude: number;
+};
+
+/**
+ * The Sun, Moon or a planet picked from the canvas.
+ */
+export type BodyInfo = {
+    /** The index of the body in `solar_system_bodies`. */
+    body: number;
+    magnitude: number;
+    /** The fraction of the body's disc that's lit, in [0, 1]. */
+    illuminated_fraction: number;
+};
+
+/**
+ * How long until a body next rises and sets, in minutes. `null` means that it doesn't happen in the next 24 hours.
+ */
+export type RiseSet = {
+    rise_minutes: number | null;
+    set_minutes: number | null;
+};
+
+/**
+ * Where a constellation is in the sky for an observer, based on the center of the constellation. Altitudes are in radians.
+ */
+export type ConstellationVisibility = {
+    altitude: number;
+    /** How long until the constellation next crosses the meridian, in minutes. */
+    transit_minutes: number;
+    /** The altitude when the constellation crosses the meridian, which is the highest that it gets. */
+    transit_altitude: number;
+    /** The lowest that the constellation gets. If this is above 0, then the constellation never sets. */
+    lowest_altitude: number;
+};
+
+/** The length of a sidereal day, which is how long it takes for the stars to go around the sky once. */
+const sidereal_day_minutes = 1436.0682;
+
+/**
+ * The shapes recorded by wasm for a frame when geometry output is turned on. The data is a view into wasm memory, so it's only
+ * valid until the next frame is drawn.
+ */
+export type FrameGeometry = {
+    /**
+     * Sprites, each `sprite_stride` bytes: x, y and size as f32s, an RGBA color as 4 u8s, the `GeometryLayer` as a u32 and the
+     * magnitude (for stars) as an f32.
+     */
+    sprites: Uint8Array;
+    sprite_count: number;
+    /** Line vertices, each `line_vertex_stride` bytes: x and y as f32s, an RGBA color as 4 u8s and the `GeometryLayer` as a u32. */
+    line_vertices: Uint8Array;
+    line_vertex_count: number;
+};
+
+export const sprite_stride = 24;
+export const line_vertex_stride = 16;
+
+/**
+ * The part of the sky that each sprite and line was drawn for, in the same order as `Layer` in `night-math/Geometry.zig`.
+ */
+export enum GeometryLayer {
+    Stars,
+    EquatorialGrid,
+    Ecliptic,
+    HorizonGrid,
+    SolarSystem,
+    ConstellationBoundaries,
+    Asterisms,
+    HighlightedConstellation,
+}
+
 export class WasmInterface {
     private is_ready = false;
     private lib: wasm.WasmModule;
@@ -53,6 +154,147 @@ export class WasmInterface {
         return constellation_index;
     }
 
+    /**
+     * Find the star drawn closest to a point on the canvas.
+     * @returns The star's data, or `null` if there's no star close enough to the point.
+     */
+    getStarAtPoint(point: wasm.Point, latitude: number, longitude: number, timestamp: BigInt): StarInfo | null {
+        const index = this.lib.getStarAtPoint(this.renderer_ptr, point.x, point.y, latitude, longitude, timestamp);
+        if (index < 0) {
+            return null;
+        }
+        const star = this.getObject(new DataView(this.memory, this.result_ptr, wasm.sizeOf(wasm.sizedExternStar)), wasm.sizedExternStar);
+        return { index, ...star };
+    }
+
+    /**
+     * Get the altitude and azimuth of the sky drawn at a point on the canvas, or `null` if the point isn't on the sky.
+     */
+    getHorizontalCoordAtPoint(point: wasm.Point): HorizontalCoord | null {
+        if (this.lib.getHorizontalCoordAtPoint(this.renderer_ptr, point.x, point.y) === 0) {
+            return null;
+        }
+        const result_data = new Float32Array(this.memory, this.result_ptr, 2);
+        return {
+            altitude: result_data[0],
+            azimuth: result_data[1],
+        };
+    }
+
+    /**
+     * Get the right ascension and declination of the sky drawn at a point on the canvas, or `null` if the point isn't on
+     * the sky.
+     */
+    getSkyCoordAtPoint(point: wasm.Point, latitude: number, longitude: number, timestamp: BigInt): SkyCoord | null {
+        if (this.lib.getSkyCoordAtPoint(this.renderer_ptr, point.x, point.y, latitude, longitude, timestamp) === 0) {
+            return null;
+        }
+        const result_data = new Float32Array(this.memory, this.result_ptr, 2);
+        return {
+            right_ascension: result_data[0],
+            declination: result_data[1],
+        };
+    }
+
+    /**
+     * Get the point on the canvas where a position in the observer's local sky is drawn.
+     */
+    getPointForHorizontalCoord(coord: HorizontalCoord): wasm.Point {
+        this.lib.getPointForHorizontalCoord(this.renderer_ptr, coord.altitude, coord.azimuth);
+        const result_data = new Float32Array(this.memory, this.result_ptr, 2);
+        return {
+            x: result_data[0],
+            y: result_data[1],
+        };
+    }
+
+    /**
+     * Get the Sun, Moon or planet drawn closest to a point on the canvas, or `null` if there isn't one nearby.
+     */
+    getBodyAtPoint(point: wasm.Point, latitude: number, longitude: number, timestamp: BigInt): BodyInfo | null {
+        const body = this.lib.getBodyAtPoint(this.renderer_ptr, point.x, point.y, latitude, longitude, timestamp);
+        if (body < 0) {
+            return null;
+        }
+        const result_data = new Float32Array(this.memory, this.result_ptr, 2);
+        return {
+            body,
+            magnitude: result_data[0],
+            illuminated_fraction: result_data[1],
+        };
+    }
+
+    /**
+     * Get the altitude of the Sun for an observer, in radians.
+     */
+    getSunAltitude(latitude: number, longitude: number, timestamp: BigInt): number {
+        return this.lib.getSunAltitude(latitude, longitude, timestamp);
+    }
+
+    /**
+     * Get the altitude of a Sun, Moon or planet for an observer, in radians.
+     * @param body The index of the body, in the same order as `Body` in `night-math/solar_system.zig`.
+     */
+    getBodyAltitude(body: number, latitude: number, longitude: number, timestamp: BigInt): number {
+        return this.lib.getBodyAltitude(body, latitude, longitude, timestamp);
+    }
+
+    /**
+     * Find how long it will be until a body next rises and sets for an observer.
+     */
+    getBodyRiseSet(body: number, latitude: number, longitude: number, timestamp: BigInt): RiseSet {
+        this.lib.getBodyRiseSet(body, latitude, longitude, timestamp);
+        const result_data = new Int32Array(this.memory, this.result_ptr, 2);
+        return {
+            rise_minutes: result_data[0] < 0 ? null : result_data[0],
+            set_minutes: result_data[1] < 0 ? null : result_data[1],
+        };
+    }
+
+    /**
+     * If a point on the canvas is over the ecliptic, get the ecliptic longitude at that point and the Sun's current
+     * ecliptic longitude. Returns `null` if the point isn't over the ecliptic.
+     */
+    getEclipticLongitudeAtPoint(point: wasm.Point, latitude: number, longitude: number, timestamp: BigInt): EclipticInfo | null {
+        if (this.lib.getEclipticLongitudeAtPoint(this.renderer_ptr, point.x, point.y, latitude, longitude, timestamp) === 0) {
+            return null;
+        }
+        const result_data = new Float32Array(this.memory, this.result_ptr, 2);
+        return {
+            longitude: result_data[0],
+            sun_longitude: result_data[1],
+        };
+    }
+
+    /**
+     * Get the point on the canvas where a sky coordinate is drawn, or `null` if it's below the horizon.
+     */
+    getPointForSkyCoord(sky_coord: SkyCoord, latitude: number, longitude: number, timestamp: BigInt): wasm.Point | null {
+        const is_visible = this.lib.getPointForSkyCoord(
+            this.renderer_ptr,
+            sky_coord.right_ascension,
+            sky_coord.declination,
+            latitude,
+            longitude,
+            timestamp
+        );
+        if (is_visible === 0) {
+            return null;
+        }
+        const result_data = new Float32Array(this.memory, this.result_ptr, 2);
+        return {
+            x: result_data[0],
+            y: result_data[1],
+        };
+    }
+
+    /**
+     * Get the local sidereal time, in radians. This is the right ascension that's on the observer's meridian.
+     */
+    getLocalSiderealTime(longitude: number, timestamp: BigInt): number {
+        return this.lib.getLocalSiderealTime(longitude, timestamp);
+    }
+
     getConstellationCentroid(index: number): wasm.ExternSkyCoord | null {
         this.lib.getConstellationCentroid(this.renderer_ptr, index);
         const result_data = new Float32Array(this.memory, this.result_ptr, 2);
@@ -62,16 +304,85 @@ export class WasmInterface {
         };
     }
 
+    /**
+     * Find where a constellation is for an observer, and when it's next highest in the sky.
+     */
+    getConstellationVisibility(index: number, latitude: number, longitude: number, timestamp: BigInt): ConstellationVisibility | null {
+        const centroid = this.getConstellationCentroid(index);
+        if (centroid == null) {
+            return null;
+        }
+
+        const local_sidereal_time = this.getLocalSiderealTime(longitude, timestamp);
+        const hour_angle = local_sidereal_time - centroid.right_ascension;
+        const sin_altitude =
+            Math.sin(centroid.declination) * Math.sin(latitude) +
+            Math.cos(centroid.declination) * Math.cos(latitude) * Math.cos(hour_angle);
+
+        // The constellation transits when the hour angle gets back around to 0
+        const until_transit = (((-hour_angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) / (2 * Math.PI);
+        return {
+            altitude: Math.asin(sin_altitude),
+            transit_minutes: Math.round(until_transit * sidereal_day_minutes),
+            transit_altitude: Math.PI / 2 - Math.abs(latitude - centroid.declination),
+            lowest_altitude: Math.abs(latitude + centroid.declination) - Math.PI / 2,
+        };
+    }
+
+    /**
+     * Find which constellations have their centers above the horizon for an observer.
+     * @param constellation_count The number of constellations to check.
+     * @returns The indices of the constellations that are above the horizon.
+     */
+    getConstellationsAboveHorizon(constellation_count: number, latitude: number, longitude: number, timestamp: BigInt): number[] {
+        const visible: number[] = [];
+        for (let index = 0; index < constellation_count; index += 1) {
+            const centroid = this.getConstellationCentroid(index);
+            if (centroid != null && this.getPointForSkyCoord(centroid, latitude, longitude, timestamp) != null) {
+                visible.push(index);
+            }
+        }
+        return visible;
+    }
+
     /** Clear the canvas. */
     resetImageData(): void {
         this.lib.resetImageData(this.renderer_ptr);
     }
 
+    /**
+     * Choose whether frames are recorded as geometry (for `getGeometry`) instead of being drawn into the pixel buffer.
+     */
+    setGeometryOutput(enabled: boolean): void {
+        this.lib.setGeometryOutput(this.renderer_ptr, enabled ? 1 : 0);
+    }
+
+    /**
+     * Get the geometry recorded for the last frame, or `null` if geometry output isn't turned on.
+     */
+    getGeometry(): FrameGeometry | null {
+        const sprites_ptr = this.lib.getGeometrySprites(this.renderer_ptr);
+        if (sprites_ptr === 0) {
+            return null;
+        }
+        const sprite_count = new Uint32Array(this.memory, this.result_ptr, 2)[0];
+
+        const line_vertices_ptr = this.lib.getGeometryLines(this.renderer_ptr);
+        const line_vertex_count = new Uint32Array(this.memory, this.result_ptr, 2)[0];
+
+        return {
+            sprites: new Uint8Array(this.memory, sprites_ptr, sprite_count * sprite_stride),
+            sprite_count,
+            line_vertices: new Uint8Array(this.memory, line_vertices_ptr, line_vertex_count * line_vertex_stride),
+            line_vertex_count,
+        };
+    }
+
     /**
      * Get the pixel data, which can then be put onto the canvas.
      * @returns
      */
-    getImageData(): Uint8ClampedArray | null {
+    getImageData(): Uint8ClampedArray<ArrayBuffer> | null {
         if (!this.is_ready) return null;
         return new Uint8ClampedArray(this.memory, this.pixel_data_ptr, this.pixel_count);
     }
@@ -144,6 +455,44 @@ export class WasmInterface {
         return current_offset;
     }
 
+    getObject<T>(mem: DataView, type: wasm.Sized<T>, offset = 0): T {
+        const result: { [key: string]: number } = {};
+        let current_offset = offset;
+        for (const key in type) {
+            result[key] = this.getPrimative(mem, type[key], current_offset);
+            current_offset += wasm.sizeOfPrimative(type[key]);
+        }
+        return result as unknown as T;
+    }
+
+    private getPrimative(mem: DataView, type: wasm.WasmPrimative, offset = 0): number {
+        switch (type) {
+            case wasm.WasmPrimative.bool:
+            case wasm.WasmPrimative.u8:
+                return mem.getUint8(offset);
+            case wasm.WasmPrimative.u16:
+                return mem.getUint16(offset, true);
+            case wasm.WasmPrimative.u32:
+                return mem.getUint32(offset, true);
+            case wasm.WasmPrimative.u64:
+                return Number(mem.getBigUint64(offset, true));
+            case wasm.WasmPrimative.i8:
+                return mem.getInt8(offset);
+            case wasm.WasmPrimative.i16:
+                return mem.getInt16(offset, true);
+            case wasm.WasmPrimative.i32:
+                return mem.getInt32(offset, true);
+            case wasm.WasmPrimative.i64:
+                return Number(mem.getBigInt64(offset, true));
+            case wasm.WasmPrimative.f32:
+                return mem.getFloat32(offset, true);
+            case wasm.WasmPrimative.f64:
+                return mem.getFloat64(offset, true);
+            default:
+                return 0;
+        }
+    }
+
     private setPrimative(mem: DataView, value: number | boolean, type: wasm.WasmPrimative, offset = 0) {
         let val: number;
         if (typeof value === 'boolean') {
@@ -203,3 +552,42 @@ export class WasmInterface {
         return this.lib.memory.buffer;
     }
 }
+
+/**
+ * Load the wasm module and wrap it in a `WasmInterface`. Log messages from wasm are forwarded to the console. This works
+ * both on the main thread and inside of a worker.
+ * @param url Where to fetch the wasm module from.
+ */
+export const instantiateWasmInterface = (url: string): Promise<WasmInterface> =>
+    createWasmInterface(imports => WebAssembly.instantiateStreaming(fetch(url), imports));
+
+/**
+ * Wrap an already loaded wasm module in a `WasmInterface`, for when it can't be fetched (such as in tests).
+ * @param bytes The contents of the wasm module.
+ */
+export const instantiateWasmInterfaceFromBytes = (bytes: BufferSource): Promise<WasmInterface> =>
+    createWasmInterface(imports => WebAssembly.instantiate(bytes, imports));
+
+const createWasmInterface = async (
+    instantiate: (imports: WebAssembly.Imports) => Promise<WebAssembly.WebAssemblyInstantiatedSource>
+): Promise<WasmInterface> => {
+    let wasm_interface: WasmInterface | null = null;
+    const getMessage = (msg_ptr: number, msg_len: number): string => wasm_interface?.getString(msg_ptr, msg_len) ?? '';
+
+    const wasm_result = await instantiate({
+        env: {
+            consoleLog: (msg_ptr: number, msg_len: number) => {
+                console.log(`[WASM] ${getMessage(msg_ptr, msg_len)}`);
+            },
+            consoleWarn: (msg_ptr: number, msg_len: number) => {
+                console.warn(`[WASM] ${getMessage(msg_ptr, msg_len)}`);
+            },
+            consoleError: (msg_ptr: number, msg_len: number) => {
+                console.error(`[WASM] ${getMessage(msg_ptr, msg_len)}`);
+            },
+        },
+    });
+
+    wasm_interface = new WasmInterface(wasm_result.instance);
+    return wasm_interface;
+};
@@ -86,10 +86,19 @@ export type ExternCanvasSettings = {
 	background_radius: number;
 	zoom_factor: number;
 	drag_speed: number;
+	pixel_ratio: number;
+	limiting_magnitude: number;
+	highlighted_constellation: number;
 	draw_north_up: number;
 	draw_constellation_grid: number;
 	draw_asterisms: number;
 	zodiac_only: number;
+	draw_horizon_grid: number;
+	draw_equatorial_grid: number;
+	draw_ecliptic: number;
+	draw_zodiac_signs: number;
+	draw_solar_system: number;
+	simulate_twilight: number;
 };
 
 export const sizedExternCanvasSettings: Sized<ExternCanvasSettings> = {
@@ -98,10 +107,19 @@ export const sizedExternCanvasSettings: Sized<ExternCanvasSettings> = {
 	background_radius: WasmPrimative.f32,
 	zoom_factor: WasmPrimative.f32,
 	drag_speed: WasmPrimative.f32,
+	pixel_ratio: WasmPrimative.f32,
+	limiting_magnitude: WasmPrimative.f32,
+	highlighted_constellation: WasmPrimative.i32,
 	draw_north_up: WasmPrimative.u8,
 	draw_constellation_grid: WasmPrimative.u8,
 	draw_asterisms: WasmPrimative.u8,
 	zodiac_only: WasmPrimative.u8,
+	draw_horizon_grid: WasmPrimative.u8,
+	draw_equatorial_grid: WasmPrimative.u8,
+	draw_ecliptic: WasmPrimative.u8,
+	draw_zodiac_signs: WasmPrimative.u8,
+	draw_solar_system: WasmPrimative.u8,
+	simulate_twilight: WasmPrimative.u8,
 };
 
 export type Pixel = {
@@ -149,8 +167,22 @@ export interface WasmModule {
 	initializeResultData: () => pointer;
 	getImageData: (arg_0: pointer) => pointer;
 	resetImageData: (arg_0: pointer) => void;
+	setGeometryOutput: (arg_0: pointer, arg_1: number) => void;
+	getGeometrySprites: (arg_0: pointer) => pointer;
+	getGeometryLines: (arg_0: pointer) => pointer;
 	projectStarsAndConstellations: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: BigInt) => void;
 	getConstellationAtPoint: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number, arg_5: BigInt) => BigInt;
+	getStarAtPoint: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number, arg_5: BigInt) => number;
+	getHorizontalCoordAtPoint: (arg_0: pointer, arg_1: number, arg_2: number) => number;
+	getSkyCoordAtPoint: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number, arg_5: BigInt) => number;
+	getPointForHorizontalCoord: (arg_0: pointer, arg_1: number, arg_2: number) => void;
+	getBodyAtPoint: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number, arg_5: BigInt) => number;
+	getSunAltitude: (arg_0: number, arg_1: number, arg_2: BigInt) => number;
+	getBodyAltitude: (arg_0: number, arg_1: number, arg_2: number, arg_3: BigInt) => number;
+	getBodyRiseSet: (arg_0: number, arg_1: number, arg_2: number, arg_3: BigInt) => void;
+	getEclipticLongitudeAtPoint: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number, arg_5: BigInt) => number;
+	getPointForSkyCoord: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number, arg_5: BigInt) => number;
+	getLocalSiderealTime: (arg_0: number, arg_1: BigInt) => number;
 	dragAndMove: (arg_0: pointer, arg_1: number, arg_2: number, arg_3: number, arg_4: number) => void;
 	findWaypoints: (arg_0: number, arg_1: number, arg_2: number, arg_3: number) => pointer;
 	getCoordForSkyCoord: (arg_0: number, arg_1: number, arg_2: BigInt) => void;
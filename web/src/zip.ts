@@ -0,0 +1,97 @@
+export type ZipEntry = {
+    name: string;
+    data: Uint8Array<ArrayBuffer>;
+};
+
+const crc_table = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+        let c = n;
+        for (let k = 0; k < 8; k += 1) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i += 1) {
+        crc = crc_table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Convert a date into the MS-DOS time and date fields used by zip files. These have a 2 second resolution.
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Bundle files into a zip archive. Files are stored without compression, which is all that's needed for images that are
+ * already compressed (such as PNGs), and keeps this simple enough to not need a library. The archive isn't written in the
+ * zip64 format, so it has to stay under 4GB.
+ */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Blob => {
+    const encoder = new TextEncoder();
+    const dos_date_time = toDosDateTime(modified);
+    const parts: BlobPart[] = [];
+    const central_directory: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        const local_header = new Uint8Array(30 + name.length);
+        const local_view = new DataView(local_header.buffer);
+        local_view.setUint32(0, 0x04034b50, true); // Local file header signature
+        local_view.setUint16(4, 20, true); // Version needed to extract
+        local_view.setUint16(6, 0x0800, true); // Flags: the name is UTF-8
+        local_view.setUint16(8, 0, true); // Compression: stored
+        local_view.setUint16(10, dos_date_time.time, true);
+        local_view.setUint16(12, dos_date_time.date, true);
+        local_view.setUint32(14, crc, true);
+        local_view.setUint32(18, entry.data.length, true); // Compressed size
+        local_view.setUint32(22, entry.data.length, true); // Uncompressed size
+        local_view.setUint16(26, name.length, true);
+        local_view.setUint16(28, 0, true); // Extra field length
+        local_header.set(name, 30);
+
+        const central_header = new Uint8Array(46 + name.length);
+        const central_view = new DataView(central_header.buffer);
+        central_view.setUint32(0, 0x02014b50, true); // Central directory header signature
+        central_view.setUint16(4, 20, true); // Version made by
+        central_view.setUint16(6, 20, true); // Version needed to extract
+        central_view.setUint16(8, 0x0800, true);
+        central_view.setUint16(10, 0, true);
+        central_view.setUint16(12, dos_date_time.time, true);
+        central_view.setUint16(14, dos_date_time.date, true);
+        central_view.setUint32(16, crc, true);
+        central_view.setUint32(20, entry.data.length, true);
+        central_view.setUint32(24, entry.data.length, true);
+        central_view.setUint16(28, name.length, true);
+        // The extra field length, comment length, disk number and file attributes are all left as 0
+        central_view.setUint32(42, offset, true); // Offset of the local header
+        central_header.set(name, 46);
+
+        parts.push(local_header, entry.data);
+        central_directory.push(central_header);
+        offset += local_header.length + entry.data.length;
+    }
+
+    const central_directory_size = central_directory.reduce((size, header) => size + header.length, 0);
+    const end_record = new Uint8Array(22);
+    const end_view = new DataView(end_record.buffer);
+    end_view.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end_view.setUint16(8, entries.length, true); // Entries on this disk
+    end_view.setUint16(10, entries.length, true); // Total entries
+    end_view.setUint32(12, central_directory_size, true);
+    end_view.setUint32(16, offset, true); // Offset of the central directory
+
+    return new Blob([...parts, ...central_directory, end_record], { type: 'application/zip' });
+};
@@ -0,0 +1,325 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GestureClock, GestureOptions, GestureRecognizer, Pinch, Rotate } from '../src/gesture-recognizer';
+
+/**
+ * A clock that only moves when it's told to, running any timeouts that come due on the way.
+ */
+class FakeClock implements GestureClock {
+    private time = 0;
+    private next_id = 1;
+    private timeouts = new Map<number, { callback: () => void; at: number }>();
+
+    now(): number {
+        return this.time;
+    }
+
+    setTimeout(callback: () => void, ms: number): number {
+        const id = this.next_id++;
+        this.timeouts.set(id, { callback, at: this.time + ms });
+        return id;
+    }
+
+    clearTimeout(id: number): void {
+        this.timeouts.delete(id);
+    }
+
+    advance(ms: number): void {
+        const end = this.time + ms;
+        for (;;) {
+            const due = [...this.timeouts.entries()].filter(([, timeout]) => timeout.at <= end).sort(([, a], [, b]) => a.at - b.at)[0];
+            if (due == null) break;
+            const [id, timeout] = due;
+            this.timeouts.delete(id);
+            this.time = timeout.at;
+            timeout.callback();
+        }
+        this.time = end;
+    }
+}
+
+/**
+ * A recognizer that's fed synthetic pointer input, with every gesture that it recognizes recorded in order.
+ */
+const createRecognizer = (options: Partial<GestureOptions> = {}) => {
+    const clock = new FakeClock();
+    const gestures = new GestureRecognizer(null, options, clock);
+    const events: [string, unknown][] = [];
+    gestures.onHover(point => events.push(['hover', point]));
+    gestures.onTap(point => events.push(['tap', point]));
+    gestures.onDoubleTap(point => events.push(['doubletap', point]));
+    gestures.onLongPress(point => events.push(['longpress', point]));
+    gestures.onPanStart(point => events.push(['panstart', point]));
+    gestures.onPan(move => events.push(['pan', move]));
+    gestures.onPanEnd(end => events.push(['panend', end]));
+    gestures.onPinch(pinch => events.push(['pinch', pinch]));
+    gestures.onRotate(rotate => events.push(['rotate', rotate]));
+
+    const input = (pointer_id: number, x: number, y: number) => ({ pointer_id, client_x: x, client_y: y });
+    return {
+        clock,
+        events,
+        names: () => events.map(([name]) => name),
+        down: (id: number, x: number, y: number) => gestures.pointerDown(input(id, x, y)),
+        move: (id: number, x: number, y: number) => gestures.pointerMove(input(id, x, y)),
+        up: (id: number, x: number, y: number) => gestures.pointerUp(input(id, x, y)),
+        cancel: (id: number, x: number, y: number) => gestures.pointerCancel(input(id, x, y)),
+        leave: (id: number, x: number, y: number) => gestures.pointerLeave(input(id, x, y)),
+    };
+};
+
+test('a short press that stays within the tap distance is a tap', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.move(1, 105, 104);
+    pointer.clock.advance(250);
+    pointer.up(1, 105, 104);
+
+    assert.deepEqual(pointer.events, [['tap', { x: 105, y: 104 }]]);
+});
+
+test('moving further than the tap distance starts a pan from where the pointer went down', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.move(1, 109, 100);
+    pointer.move(1, 120, 110);
+    pointer.up(1, 120, 110);
+
+    assert.deepEqual(pointer.events, [
+        ['panstart', { x: 100, y: 100 }],
+        ['pan', { previous: { x: 100, y: 100 }, current: { x: 109, y: 100 } }],
+        ['pan', { previous: { x: 109, y: 100 }, current: { x: 120, y: 110 } }],
+        ['panend', { point: { x: 120, y: 110 }, completed: true }],
+    ]);
+});
+
+test('a press that is held for longer than a tap but not long enough for a long press is ignored', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.clock.advance(400);
+    pointer.up(1, 100, 100);
+
+    assert.deepEqual(pointer.events, []);
+});
+
+test('two taps close together in time and space are a double tap', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.up(1, 100, 100);
+    pointer.clock.advance(200);
+    pointer.down(2, 110, 110);
+    pointer.up(2, 110, 110);
+
+    assert.deepEqual(pointer.names(), ['tap', 'tap', 'doubletap']);
+    assert.deepEqual(pointer.events[2], ['doubletap', { x: 110, y: 110 }]);
+});
+
+test('taps that are too far apart in time or space are not a double tap', () => {
+    const late = createRecognizer();
+    late.down(1, 100, 100);
+    late.up(1, 100, 100);
+    late.clock.advance(301);
+    late.down(2, 100, 100);
+    late.up(2, 100, 100);
+    assert.deepEqual(late.names(), ['tap', 'tap']);
+
+    const far = createRecognizer();
+    far.down(1, 100, 100);
+    far.up(1, 100, 100);
+    far.clock.advance(100);
+    far.down(2, 130, 100);
+    far.up(2, 130, 100);
+    assert.deepEqual(far.names(), ['tap', 'tap']);
+});
+
+test('a third tap starts a new double tap instead of finishing another one', () => {
+    const pointer = createRecognizer();
+    for (let tap = 0; tap < 3; tap += 1) {
+        pointer.down(tap, 100, 100);
+        pointer.up(tap, 100, 100);
+        pointer.clock.advance(100);
+    }
+
+    assert.deepEqual(pointer.names(), ['tap', 'tap', 'doubletap', 'tap']);
+});
+
+test('holding a pointer still is a long press, and lifting it afterwards is not a tap', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.move(1, 103, 100);
+    pointer.clock.advance(499);
+    assert.deepEqual(pointer.events, []);
+
+    pointer.clock.advance(1);
+    assert.deepEqual(pointer.events, [['longpress', { x: 103, y: 100 }]]);
+
+    pointer.up(1, 103, 100);
+    assert.deepEqual(pointer.names(), ['longpress']);
+});
+
+test('panning before the long press duration cancels the long press', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.clock.advance(300);
+    pointer.move(1, 120, 100);
+    pointer.clock.advance(1000);
+    pointer.up(1, 120, 100);
+
+    assert.deepEqual(pointer.names(), ['panstart', 'pan', 'panend']);
+});
+
+test('two pointers pinch by how much the distance between them changed, around their midpoint', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.down(2, 200, 100);
+    pointer.move(2, 300, 100);
+    pointer.move(1, 150, 100);
+
+    assert.deepEqual(pointer.events, [
+        ['pinch', { center: { x: 200, y: 100 }, scale: 2 }],
+        ['pinch', { center: { x: 225, y: 100 }, scale: 0.75 }],
+    ]);
+});
+
+test('pointers that turn without moving apart rotate instead of pinching', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.down(2, 200, 100);
+    pointer.move(2, 100, 200);
+
+    assert.deepEqual(pointer.events, [['rotate', { center: { x: 100, y: 150 }, rotation: Math.PI / 2 }]]);
+});
+
+/**
+ * Move pointer 2 so that it's 100 pixels from pointer 1 at (100, 100), turned clockwise by `degrees` from the x axis.
+ */
+const turnTo = (pointer: ReturnType<typeof createRecognizer>, degrees: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    pointer.move(2, 100 + 100 * Math.cos(angle), 100 + 100 * Math.sin(angle));
+};
+
+const rotations = (pointer: ReturnType<typeof createRecognizer>): number[] =>
+    pointer.events.filter(([name]) => name === 'rotate').map(([, rotate]) => ((rotate as Rotate).rotation * 180) / Math.PI);
+
+const assertAngles = (actual: number[], expected: number[]) => {
+    assert.equal(actual.length, expected.length, `expected rotations of ${expected} degrees, got ${actual}`);
+    actual.forEach((angle, index) => assert.ok(Math.abs(angle - expected[index]) < 1e-6, `expected ${expected[index]}, got ${angle}`));
+};
+
+test('rotations are held back until the pointers turn past the threshold, then reported on every move', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.down(2, 200, 100);
+    turnTo(pointer, 4);
+    turnTo(pointer, 8);
+    assertAngles(rotations(pointer), []);
+
+    turnTo(pointer, 12);
+    turnTo(pointer, 14);
+    turnTo(pointer, 11);
+    assertAngles(rotations(pointer), [12, 2, -3]);
+    // Turning around a fixed point keeps the distance the same, so any pinches along the way don't zoom
+    for (const [name, pinch] of pointer.events) {
+        if (name === 'pinch') assert.ok(Math.abs((pinch as Pinch).scale - 1) < 1e-9);
+    }
+});
+
+test('the rotation threshold can be configured, and starts over with every pinch', () => {
+    const pointer = createRecognizer({ rotate_min_angle: Math.PI / 4 });
+    pointer.down(1, 100, 100);
+    pointer.down(2, 200, 100);
+    turnTo(pointer, 30);
+    assertAngles(rotations(pointer), []);
+    turnTo(pointer, -20);
+    turnTo(pointer, 30);
+    turnTo(pointer, 50);
+    assertAngles(rotations(pointer), [50]);
+
+    pointer.up(2, 100 + 100 * Math.cos((50 * Math.PI) / 180), 100 + 100 * Math.sin((50 * Math.PI) / 180));
+    pointer.down(2, 200, 100);
+    turnTo(pointer, 30);
+    assertAngles(rotations(pointer), [50]);
+});
+
+test('turning across the negative x axis is a small rotation, not a full turn', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.down(2, 100 + 100 * Math.cos((170 * Math.PI) / 180), 100 + 100 * Math.sin((170 * Math.PI) / 180));
+    turnTo(pointer, 190);
+    turnTo(pointer, 175);
+
+    assertAngles(rotations(pointer), [20, -15]);
+});
+
+test('a second pointer turns a pan into a pinch, and the pan carries on when one of them is lifted', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.move(1, 120, 100);
+    pointer.down(2, 220, 100);
+    pointer.move(2, 320, 100);
+    pointer.up(2, 320, 100);
+    pointer.move(1, 130, 100);
+    pointer.up(1, 130, 100);
+
+    assert.deepEqual(pointer.events, [
+        ['panstart', { x: 100, y: 100 }],
+        ['pan', { previous: { x: 100, y: 100 }, current: { x: 120, y: 100 } }],
+        ['panend', { point: { x: 120, y: 100 }, completed: false }],
+        ['pinch', { center: { x: 220, y: 100 }, scale: 2 }],
+        ['panstart', { x: 120, y: 100 }],
+        ['pan', { previous: { x: 120, y: 100 }, current: { x: 130, y: 100 } }],
+        ['panend', { point: { x: 130, y: 100 }, completed: true }],
+    ]);
+});
+
+test('two pointers going down together are never a tap', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.down(2, 110, 100);
+    pointer.up(2, 110, 100);
+    pointer.up(1, 100, 100);
+
+    assert.deepEqual(pointer.names(), ['panstart', 'panend']);
+});
+
+test('only the first two pointers are tracked', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.down(2, 200, 100);
+    pointer.down(3, 300, 300);
+    pointer.move(3, 400, 400);
+
+    assert.deepEqual(pointer.events, []);
+});
+
+test('a cancelled pointer is neither a tap nor a long press', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.cancel(1, 100, 100);
+    pointer.clock.advance(1000);
+
+    assert.deepEqual(pointer.events, []);
+});
+
+test('a cancelled pan ends without being completed', () => {
+    const pointer = createRecognizer();
+    pointer.down(1, 100, 100);
+    pointer.move(1, 120, 100);
+    pointer.cancel(1, 120, 100);
+
+    assert.deepEqual(pointer.events[pointer.events.length - 1], ['panend', { point: { x: 120, y: 100 }, completed: false }]);
+});
+
+test('pointers that move without being down hover until they leave', () => {
+    const pointer = createRecognizer();
+    pointer.move(1, 100, 100);
+    pointer.down(1, 100, 100);
+    pointer.move(1, 120, 100);
+    pointer.up(1, 120, 100);
+    pointer.move(1, 130, 100);
+    pointer.leave(1, 130, 100);
+
+    assert.deepEqual(pointer.names(), ['hover', 'panstart', 'pan', 'panend', 'hover', 'hover']);
+    assert.deepEqual(pointer.events[0], ['hover', { x: 100, y: 100 }]);
+    assert.deepEqual(pointer.events[pointer.events.length - 1], ['hover', null]);
+});
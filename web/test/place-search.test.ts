@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getUtcOffset, Place, searchPlaces, toSearchablePlace } from '../src/place-search';
+
+const createPlace = (name: string, region: string, country: string, population: number): Place => ({
+    name,
+    region,
+    country,
+    latitude: 0,
+    longitude: 0,
+    timezone: 'UTC',
+    population,
+});
+
+test('the UTC offset follows daylight saving time', () => {
+    assert.equal(getUtcOffset('America/New_York', new Date('2024-01-15T12:00:00Z')), -300);
+    assert.equal(getUtcOffset('America/New_York', new Date('2024-07-15T12:00:00Z')), -240);
+    assert.equal(getUtcOffset('Europe/Paris', new Date('2024-01-15T12:00:00Z')), 60);
+    assert.equal(getUtcOffset('Europe/Paris', new Date('2024-07-15T12:00:00Z')), 120);
+    assert.equal(getUtcOffset('Australia/Sydney', new Date('2024-01-15T12:00:00Z')), 660);
+});
+
+test('the UTC offset changes at the moment that the clocks do', () => {
+    // Clocks in New York went forward at 2:00 local time (07:00 UTC) on 2024-03-10
+    assert.equal(getUtcOffset('America/New_York', new Date('2024-03-10T06:59:00Z')), -300);
+    assert.equal(getUtcOffset('America/New_York', new Date('2024-03-10T07:00:00Z')), -240);
+});
+
+test('timezones with partial hour offsets are supported', () => {
+    assert.equal(getUtcOffset('Asia/Kolkata', new Date('2024-01-15T12:00:00Z')), 330);
+    assert.equal(getUtcOffset('Asia/Kathmandu', new Date('2024-01-15T12:00:00Z')), 345);
+});
+
+test('unknown timezones have no offset', () => {
+    assert.equal(getUtcOffset('Not/A_Zone', new Date('2024-01-15T12:00:00Z')), null);
+});
+
+test('places are found without accents, with bigger cities first', () => {
+    const places = [
+        createPlace('Portland', 'Maine', 'United States', 68000),
+        createPlace('Portland', 'Oregon', 'United States', 650000),
+        createPlace('São Paulo', 'São Paulo', 'Brazil', 12000000),
+    ].map(toSearchablePlace);
+
+    assert.equal(searchPlaces('sao paulo', places)[0].name, 'São Paulo');
+    assert.deepEqual(
+        searchPlaces('portland', places).map(place => place.region),
+        ['Oregon', 'Maine']
+    );
+    assert.equal(searchPlaces('portland maine', places)[0].region, 'Maine');
+    assert.deepEqual(searchPlaces('   ', places), []);
+});
@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CanvasSettings } from '../src/renderer';
+import { FrameGeometry, instantiateWasmInterfaceFromBytes, line_vertex_stride, sprite_stride } from '../src/wasm/wasm-interface';
+
+// Built by `zig build wasm` (which `npm test` runs when Zig is installed), with the star data bundled into the module
+const wasm_path = path.join(process.cwd(), 'dist', 'wasm', 'night-math.wasm');
+const skip = fs.existsSync(wasm_path)
+    ? false
+    : `${path.relative(process.cwd(), wasm_path)} hasn't been built, install Zig 0.14 to build it`;
+
+const size = 240;
+/** How far apart, in pixels, the two backends can draw the same shape. Both round positions to pixels differently. */
+const tolerance = 2;
+
+/**
+ * Mark every pixel in `mask` that's within `radius` of the point.
+ */
+const markDisc = (mask: Uint8Array, x: number, y: number, radius: number): void => {
+    for (let py = Math.floor(y - radius); py <= Math.ceil(y + radius); py += 1) {
+        for (let px = Math.floor(x - radius); px <= Math.ceil(x + radius); px += 1) {
+            if (px >= 0 && py >= 0 && px < size && py < size && Math.hypot(px + 0.5 - x, py + 0.5 - y) <= radius) {
+                mask[py * size + px] = 1;
+            }
+        }
+    }
+};
+
+const isMarked = (mask: Uint8Array, x: number, y: number): boolean => {
+    const px = Math.floor(x);
+    const py = Math.floor(y);
+    return px >= 0 && py >= 0 && px < size && py < size && mask[py * size + px] === 1;
+};
+
+/**
+ * Call `visit` for points spaced at most half a pixel apart along every recorded line.
+ */
+const forEachLinePoint = (geometry: FrameGeometry, visit: (x: number, y: number) => void): void => {
+    const view = new DataView(geometry.line_vertices.buffer, geometry.line_vertices.byteOffset, geometry.line_vertices.byteLength);
+    for (let vertex = 0; vertex + 1 < geometry.line_vertex_count; vertex += 2) {
+        const a = vertex * line_vertex_stride;
+        const b = a + line_vertex_stride;
+        const [ax, ay] = [view.getFloat32(a, true), view.getFloat32(a + 4, true)];
+        const [bx, by] = [view.getFloat32(b, true), view.getFloat32(b + 4, true)];
+        const steps = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) * 2));
+        for (let step = 0; step <= steps; step += 1) {
+            visit(ax + ((bx - ax) * step) / steps, ay + ((by - ay) * step) / steps);
+        }
+    }
+};
+
+const forEachSprite = (geometry: FrameGeometry, visit: (x: number, y: number, size: number, color: number) => void): void => {
+    const view = new DataView(geometry.sprites.buffer, geometry.sprites.byteOffset, geometry.sprites.byteLength);
+    for (let sprite = 0; sprite < geometry.sprite_count; sprite += 1) {
+        const offset = sprite * sprite_stride;
+        visit(
+            view.getFloat32(offset, true),
+            view.getFloat32(offset + 4, true),
+            view.getFloat32(offset + 8, true),
+            view.getUint32(offset + 12, true)
+        );
+    }
+};
+
+test('the pixel buffer and the recorded geometry draw the same sky', { skip }, async () => {
+    const wasm_interface = await instantiateWasmInterfaceFromBytes(fs.readFileSync(wasm_path));
+
+    const settings = new CanvasSettings(size, size);
+    settings.draw_constellation_grid = true;
+    settings.draw_asterisms = true;
+    settings.draw_horizon_grid = true;
+    settings.draw_equatorial_grid = true;
+    settings.draw_ecliptic = true;
+    wasm_interface.initialize(settings.toExtern());
+
+    // Orion is well above the horizon from Greenwich on a January night
+    const latitude = (51.48 * Math.PI) / 180;
+    const longitude = 0;
+    const timestamp = BigInt(Date.UTC(2024, 0, 15, 22));
+
+    wasm_interface.setGeometryOutput(false);
+    wasm_interface.projectStarsAndConstellations(latitude, longitude, timestamp);
+    const pixels = new Uint32Array(wasm_interface.getImageData()!.slice().buffer);
+    wasm_interface.resetImageData();
+
+    wasm_interface.setGeometryOutput(true);
+    wasm_interface.projectStarsAndConstellations(latitude, longitude, timestamp);
+    const geometry = wasm_interface.getGeometry()!;
+
+    assert.ok(geometry.sprite_count > 100, `only ${geometry.sprite_count} sprites were recorded`);
+    assert.ok(geometry.line_vertex_count > 0, 'no lines were recorded');
+
+    // Everything that the pixel buffer drew has to be somewhere in the geometry...
+    const geometry_mask = new Uint8Array(size * size);
+    forEachSprite(geometry, (x, y, sprite_size) => markDisc(geometry_mask, x, y, sprite_size / 2 + tolerance));
+    forEachLinePoint(geometry, (x, y) => markDisc(geometry_mask, x, y, tolerance));
+
+    const drawn_mask = new Uint8Array(size * size);
+    let missing_pixels = 0;
+    for (let index = 0; index < pixels.length; index += 1) {
+        if (pixels[index] === 0) continue;
+        const x = (index % size) + 0.5;
+        const y = Math.floor(index / size) + 0.5;
+        markDisc(drawn_mask, x, y, tolerance);
+        if (!isMarked(geometry_mask, x, y)) {
+            missing_pixels += 1;
+        }
+    }
+    assert.equal(missing_pixels, 0, `${missing_pixels} pixels were drawn without any geometry near them`);
+
+    // ...and everything in the geometry has to have been drawn by the pixel buffer. Discs and lines aren't clipped to the sky
+    // circle when they're recorded (WebGL discards what's outside of it), so only the parts inside of the circle are checked.
+    const center = size / 2;
+    const inside_radius = settings.background_radius - tolerance;
+    let missing_sprites = 0;
+    forEachSprite(geometry, (x, y, _, color) => {
+        if (color !== 0 && Math.hypot(x - center, y - center) < inside_radius && !isMarked(drawn_mask, x, y)) {
+            missing_sprites += 1;
+        }
+    });
+    assert.equal(missing_sprites, 0, `${missing_sprites} sprites weren't drawn into the pixel buffer`);
+
+    let missing_line_points = 0;
+    forEachLinePoint(geometry, (x, y) => {
+        if (Math.hypot(x - center, y - center) < inside_radius && !isMarked(drawn_mask, x, y)) {
+            missing_line_points += 1;
+        }
+    });
+    assert.equal(missing_line_points, 0, `${missing_line_points} points on recorded lines weren't drawn into the pixel buffer`);
+});
@@ -0,0 +1,43 @@
+import * as esbuild from 'esbuild';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+// The tests import the app's TypeScript directly, so they're bundled for Node before being handed to its test runner
+const test_dir = path.join(process.cwd(), 'web', 'test');
+const out_dir = path.join(process.cwd(), 'dist', 'test');
+
+const test_files = fs
+    .readdirSync(test_dir)
+    .filter(file => file.endsWith('.test.ts'))
+    .sort();
+
+if (test_files.length === 0) {
+    console.log('No tests found in web/test');
+    process.exit(0);
+}
+
+// Some tests load the wasm module, so it's rebuilt first to make sure they don't check a stale build. Without Zig those
+// tests are skipped, unless `--require-wasm` is passed (as CI does).
+const require_wasm = process.argv.includes('--require-wasm');
+const wasm_build = spawnSync('zig', ['build', 'wasm'], { stdio: 'inherit' });
+if (wasm_build.error?.code === 'ENOENT' && !require_wasm) {
+    console.warn("Zig isn't installed, so the tests that need the wasm module will be skipped");
+} else if (wasm_build.error != null || wasm_build.status !== 0) {
+    console.error('Could not build the wasm module with `zig build wasm`: ', wasm_build.error?.message ?? `exit code ${wasm_build.status}`);
+    process.exit(1);
+}
+
+await esbuild.build({
+    entryPoints: test_files.map(file => path.join(test_dir, file)),
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    sourcemap: true,
+    outdir: out_dir,
+    logLevel: 'warning',
+});
+
+const outputs = test_files.map(file => path.join(out_dir, file.replace(/\.ts$/, '.js')));
+const result = spawnSync(process.execPath, ['--enable-source-maps', '--test', ...outputs], { stdio: 'inherit' });
+process.exit(result.status ?? 1);
@@ -0,0 +1,138 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getViewTimeZone, mergeViewStateIntoQuery, ViewHistory, ViewState, viewStateFromQuery, viewStateToQuery } from '../src/view-state';
+
+const createViewState = (overrides: Partial<ViewState> = {}): ViewState => ({
+    date: new Date('2024-03-10T04:30:00.000Z'),
+    utc_offset: -300,
+    time_zone: null,
+    latitude: (40.7128 * Math.PI) / 180,
+    longitude: (-74.006 * Math.PI) / 180,
+    zoom_factor: 2.5,
+    limiting_magnitude: 6.5,
+    draw_north_up: true,
+    draw_asterisms: false,
+    draw_constellation_grid: true,
+    zodiac_only: false,
+    draw_horizon_grid: true,
+    draw_equatorial_grid: false,
+    draw_ecliptic: true,
+    draw_zodiac_signs: false,
+    draw_solar_system: true,
+    simulate_twilight: false,
+    selected_constellation: 12,
+    ...overrides,
+});
+
+/**
+ * Just enough of `window` for `ViewHistory`, with the history entries recorded so that tests can check them.
+ */
+const installWindow = (search: string) => {
+    const entries: { method: 'push' | 'replace'; url: string }[] = [];
+    const location = { search };
+    const record = (method: 'push' | 'replace') => (_state: unknown, _title: string, url: string) => {
+        entries.push({ method, url });
+        location.search = url;
+    };
+    (globalThis as any).window = {
+        location,
+        history: { pushState: record('push'), replaceState: record('replace') },
+        setTimeout: () => 1,
+        clearTimeout: () => {},
+        addEventListener: () => {},
+    };
+    return entries;
+};
+
+test('a view survives being written to and read from a query string', () => {
+    const state = createViewState();
+    const read = viewStateFromQuery(viewStateToQuery(state));
+
+    assert.equal(read.date?.toISOString(), state.date.toISOString());
+    assert.equal(read.utc_offset, state.utc_offset);
+    assert.ok(Math.abs(read.latitude! - state.latitude) < 1e-5);
+    assert.ok(Math.abs(read.longitude! - state.longitude) < 1e-5);
+    assert.equal(read.zoom_factor, state.zoom_factor);
+    assert.equal(read.draw_asterisms, false);
+    assert.equal(read.selected_constellation, 12);
+});
+
+test('invalid parameters are left out of the view', () => {
+    const read = viewStateFromQuery('?date=yesterday&lat=95&zoom=0.5&north=maybe&tz=1000');
+
+    assert.equal(read.date, undefined);
+    assert.equal(read.latitude, undefined);
+    assert.equal(read.zoom_factor, undefined);
+    assert.equal(read.draw_north_up, undefined);
+    assert.equal(read.utc_offset, null);
+    assert.equal(viewStateFromQuery('?zoom=5000').zoom_factor, undefined);
+});
+
+test('a timezone picked in the city search is written to the query string', () => {
+    const read = viewStateFromQuery(viewStateToQuery(createViewState({ utc_offset: 60, time_zone: 'Europe/Paris' })));
+
+    assert.equal(read.utc_offset, 60);
+    assert.equal(read.time_zone, 'Europe/Paris');
+    assert.equal(viewStateFromQuery('?tz=60').time_zone, undefined);
+});
+
+test('restoring a view keeps the timezone unless the view asks for a different one', () => {
+    const winter = new Date('2024-01-15T12:00:00Z');
+    const summer = new Date('2024-07-15T12:00:00Z');
+
+    // Only the offset is given, and it's the timezone's offset at that date
+    assert.equal(getViewTimeZone({ utc_offset: 60 }, 'Europe/Paris', winter), 'Europe/Paris');
+    assert.equal(getViewTimeZone({ utc_offset: 120 }, 'Europe/Paris', summer), 'Europe/Paris');
+    assert.equal(getViewTimeZone({}, 'Europe/Paris', winter), 'Europe/Paris');
+
+    // A different offset, or no offset at all, means the view was shown in some other timezone
+    assert.equal(getViewTimeZone({ utc_offset: 120 }, 'Europe/Paris', winter), null);
+    assert.equal(getViewTimeZone({ utc_offset: null }, 'Europe/Paris', winter), null);
+
+    // A timezone that's given explicitly always wins, as long as the browser knows it
+    assert.equal(getViewTimeZone({ utc_offset: -300, time_zone: 'America/New_York' }, 'Europe/Paris', winter), 'America/New_York');
+    assert.equal(getViewTimeZone({ utc_offset: 60, time_zone: null }, 'Europe/Paris', winter), null);
+    assert.equal(getViewTimeZone({ utc_offset: 60, time_zone: 'Not/AZone' }, null, winter), null);
+});
+
+test('merging a view keeps parameters that belong to the page', () => {
+    const params = new URLSearchParams(mergeViewStateIntoQuery('?backend=webgl&debug=1&zoom=9', createViewState()));
+
+    assert.equal(params.get('backend'), 'webgl');
+    assert.equal(params.get('debug'), '1');
+    assert.equal(params.get('zoom'), '2.500');
+    assert.equal(params.getAll('zoom').length, 1);
+});
+
+test('merging a view removes optional parameters that the view no longer sets', () => {
+    const query = mergeViewStateIntoQuery(
+        '?backend=webgl&tz=60&constellation=3',
+        createViewState({ utc_offset: null, selected_constellation: null })
+    );
+    const params = new URLSearchParams(query);
+
+    assert.equal(params.get('backend'), 'webgl');
+    assert.equal(params.has('tz'), false);
+    assert.equal(params.has('constellation'), false);
+});
+
+test('ViewHistory writes the view without dropping other parameters from the URL', () => {
+    const entries = installWindow('?backend=webgl&lang=de');
+    const history = new ViewHistory();
+
+    history.update(createViewState());
+    history.markNewEntry();
+    history.update(createViewState({ zoom_factor: 4 }));
+    history.markNewEntry();
+
+    assert.deepEqual(
+        entries.map(entry => entry.method),
+        ['replace', 'push']
+    );
+    for (const entry of entries) {
+        const params = new URLSearchParams(entry.url);
+        assert.equal(params.get('backend'), 'webgl');
+        assert.equal(params.get('lang'), 'de');
+    }
+    assert.equal(viewStateFromQuery(entries[1].url).zoom_factor, 4);
+});